@@ -0,0 +1,376 @@
+import fs from "fs-extra";
+import path from "path";
+
+import type { RenderMode } from "./args";
+import { TEMPLATES_DIR, renderTemplate } from "./templates";
+
+/**
+ * `create-taujs add` generators for existing projects.
+ *
+ * These edit user-owned files, so every edit is conservative: a file is only
+ * touched when its shape matches what the scaffolder generates, and any
+ * doubt is reported as an AddError with nothing written.
+ */
+
+export class AddError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AddError";
+  }
+}
+
+export type AddResult = {
+  created: string[];
+  updated: string[];
+};
+
+export type AddRouteOptions = {
+  path: string;
+  render?: RenderMode;
+  app?: string;
+  /** `name.method` of the service the data handler calls */
+  service?: string;
+};
+
+const REGISTRY_FILE = "src/server/services/registry.ts";
+const CONFIG_FILE = "taujs.config.ts";
+const ROUTE_DATA_FILE = "src/server/route-data.ts";
+const IDENTIFIER = "[A-Za-z_$][\\w$]*";
+
+const CLOSERS: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+
+function skipString(source: string, start: number): number {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === quote) {
+      return i;
+    } else if (quote === "`" && ch === "$" && source[i + 1] === "{") {
+      i = findClosing(source, i + 1);
+      if (i === -1) return -1;
+    } else if (quote !== "`" && ch === "\n") {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the bracket that closes the one at `open`, skipping strings,
+ * template literals and comments. -1 when the source does not balance.
+ */
+function findClosing(source: string, open: number): number {
+  const expected: string[] = [];
+
+  for (let i = open; i < source.length; i++) {
+    const ch = source[i];
+
+    if (ch === "/" && source[i + 1] === "/") {
+      i = source.indexOf("\n", i);
+      if (i === -1) return -1;
+    } else if (ch === "/" && source[i + 1] === "*") {
+      i = source.indexOf("*/", i + 2);
+      if (i === -1) return -1;
+      i++;
+    } else if (ch === "'" || ch === '"' || ch === "`") {
+      i = skipString(source, i);
+      if (i === -1) return -1;
+    } else if (ch in CLOSERS) {
+      expected.push(CLOSERS[ch]);
+    } else if (ch === ")" || ch === "]" || ch === "}") {
+      if (expected.pop() !== ch) return -1;
+      if (expected.length === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+function indentOf(source: string, index: number) {
+  const lineStart = source.lastIndexOf("\n", index - 1) + 1;
+  return /^[ \t]*/.exec(source.slice(lineStart))![0];
+}
+
+/**
+ * Insert `entry` as the last element of the list or object whose brackets
+ * sit at `open` and `close`, adding a comma after the previous element when
+ * it lacks one.
+ */
+function appendEntry(
+  source: string,
+  open: number,
+  close: number,
+  entry: string
+): string {
+  const before = source.slice(0, close).trimEnd();
+  const needsComma = before.length > open + 1 && !before.endsWith(",");
+  const indent = indentOf(source, close);
+
+  return `${before}${needsComma ? "," : ""}\n${entry}\n${indent}${source.slice(close)}`;
+}
+
+async function readProjectFile(projectDir: string, file: string) {
+  const fullPath = path.join(projectDir, file);
+  if (!(await fs.pathExists(fullPath))) {
+    throw new AddError(
+      `Cannot find ${file}. Run this from the root of a τjs project.`
+    );
+  }
+  return fs.readFile(fullPath, "utf8");
+}
+
+async function renderSnippet(name: string, context: Record<string, string>) {
+  const file = path.join(TEMPLATES_DIR, "add", name);
+  return renderTemplate(await fs.readFile(file, "utf8"), context, `add/${name}`);
+}
+
+function toCamelCase(name: string) {
+  return name.replace(/-([a-z0-9])/g, (_, ch: string) => ch.toUpperCase());
+}
+
+function toKebabCase(name: string) {
+  return name.replace(/[A-Z]/g, (ch) => `-${ch.toLowerCase()}`);
+}
+
+/**
+ * Create `src/server/services/<name>.service.ts` and register it in the
+ * `defineServiceRegistry` call in `registry.ts`.
+ */
+export async function addService(
+  projectDir: string,
+  name: string
+): Promise<AddResult> {
+  if (!/^[a-z][a-zA-Z0-9]*(-[a-z0-9]+)*$/.test(name)) {
+    throw new AddError(
+      `Invalid service name "${name}". Use camelCase or kebab-case, starting with a lowercase letter.`
+    );
+  }
+
+  const key = toCamelCase(name);
+  const exportName = `${key}Service`;
+  const serviceFile = `src/server/services/${toKebabCase(key)}.service.ts`;
+  const registry = await readProjectFile(projectDir, REGISTRY_FILE);
+
+  if (await fs.pathExists(path.join(projectDir, serviceFile))) {
+    throw new AddError(`${serviceFile} already exists`);
+  }
+
+  const calls = registry.split("defineServiceRegistry(").length - 1;
+  const open = registry.indexOf("{", registry.indexOf("defineServiceRegistry("));
+  const between = registry.slice(
+    registry.indexOf("defineServiceRegistry(") + "defineServiceRegistry(".length,
+    open
+  );
+  const close = calls === 1 && between.trim() === "" ? findClosing(registry, open) : -1;
+
+  if (close === -1) {
+    throw new AddError(
+      `${REGISTRY_FILE} does not contain a single defineServiceRegistry({ ... }) call that can be edited safely. Register ${exportName} by hand.`
+    );
+  }
+
+  // Only plain `key: value,` / shorthand entries and comments are understood
+  const entry = new RegExp(`^(${IDENTIFIER})(\\s*:\\s*${IDENTIFIER})?\\s*,?\\s*(//.*)?$`);
+  const keys: string[] = [];
+
+  for (const line of registry.slice(open + 1, close).split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("//")) continue;
+    const match = entry.exec(trimmed);
+    if (!match) {
+      throw new AddError(
+        `${REGISTRY_FILE} has a service registry entry create-taujs does not recognise ("${trimmed}"). Register ${exportName} by hand.`
+      );
+    }
+    keys.push(match[1]);
+  }
+
+  if (keys.includes(key)) {
+    throw new AddError(`A service named "${key}" is already registered`);
+  }
+
+  const imports = [...registry.matchAll(/^import\s[^;]*;[ \t]*$/gm)];
+  if (imports.length === 0) {
+    throw new AddError(`${REGISTRY_FILE} has no imports to follow. Register ${exportName} by hand.`);
+  }
+
+  // Follow the quoting and extension style of the existing imports
+  const lastImport = imports[imports.length - 1];
+  const quote = lastImport[0].includes('"') ? '"' : "'";
+  const extension = /\.service\.ts['"]/.test(registry) ? ".ts" : "";
+  const importLine = `import { ${exportName} } from ${quote}./${toKebabCase(key)}.service${extension}${quote};`;
+
+  const entryIndent = `${indentOf(registry, close)}  `;
+  let updated = appendEntry(registry, open, close, `${entryIndent}${key}: ${exportName},`);
+  const importEnd = lastImport.index! + lastImport[0].length;
+  updated = `${updated.slice(0, importEnd)}\n${importLine}${updated.slice(importEnd)}`;
+
+  const contents = await renderSnippet("service.ts", { exportName });
+
+  await fs.outputFile(path.join(projectDir, serviceFile), contents);
+  await fs.writeFile(path.join(projectDir, REGISTRY_FILE), updated);
+
+  return { created: [serviceFile], updated: [REGISTRY_FILE] };
+}
+
+/**
+ * The params a generated `data` handler passes to its service: one string
+ * per `:name` path param, so they are always JSON. Path params arrive as
+ * `string | string[] | undefined`, which services are not written to take.
+ */
+function serviceArgs(routePath: string) {
+  const names = [...routePath.matchAll(new RegExp(`:(${IDENTIFIER})`, "g"))].map(
+    (match) => match[1]
+  );
+  if (names.length === 0) return "{}";
+  return `{ ${[...new Set(names)].map((name) => `${name}: String(params.${name})`).join(", ")} }`;
+}
+
+/**
+ * Make `config` import `helper` from route-data.ts, joining an existing
+ * import of that module or adding one after the last import.
+ */
+async function importRouteDataHelper(projectDir: string, config: string, helper: string) {
+  const existing =
+    /^import\s*\{([^}]*)\}\s*from\s*(['"])\.\/src\/server\/route-data(?:\.ts)?\2;[ \t]*$/m.exec(
+      config
+    );
+
+  if (existing) {
+    const names = existing[1]
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    if (names.includes(helper)) return config;
+
+    const quote = existing[2];
+    const from = existing[0].slice(existing[0].indexOf(quote));
+    const importLine = `import { ${[...names, helper].sort().join(", ")} } from ${from}`;
+    return `${config.slice(0, existing.index)}${importLine}${config.slice(existing.index + existing[0].length)}`;
+  }
+
+  if (!(await fs.pathExists(path.join(projectDir, ROUTE_DATA_FILE)))) {
+    throw new AddError(
+      `--service needs ${helper} from ${ROUTE_DATA_FILE}, which this project does not have. Add the route by hand.`
+    );
+  }
+
+  const imports = [...config.matchAll(/^import\s[^;]*;[ \t]*$/gm)];
+  if (imports.length === 0) {
+    throw new AddError(`${CONFIG_FILE} has no imports to follow. Add the route by hand.`);
+  }
+
+  const lastImport = imports[imports.length - 1];
+  const quote = lastImport[0].includes('"') ? '"' : "'";
+  const importLine = `import { ${helper} } from ${quote}./${ROUTE_DATA_FILE}${quote};`;
+  const importEnd = lastImport.index! + lastImport[0].length;
+  return `${config.slice(0, importEnd)}\n${importLine}${config.slice(importEnd)}`;
+}
+
+/**
+ * Insert a route with a `data` handler into one app's `routes` array in
+ * `taujs.config.ts`.
+ *
+ * Without `--app`, a lone app is used; otherwise the app whose ID matches
+ * the first path segment, falling back to the first app (which the
+ * scaffolder mounts at `/`).
+ */
+export async function addRoute(
+  projectDir: string,
+  options: AddRouteOptions
+): Promise<AddResult & { appId: string }> {
+  const { path: routePath, render = "ssr" } = options;
+
+  if (!/^\/[\w\-.~:/*]*$/.test(routePath)) {
+    throw new AddError(
+      `Invalid route path "${routePath}". It must start with "/" and contain only URL path characters.`
+    );
+  }
+
+  let serviceName: string | undefined;
+  let serviceMethod: string | undefined;
+  if (options.service !== undefined) {
+    const match = new RegExp(`^(${IDENTIFIER})\\.(${IDENTIFIER})$`).exec(options.service);
+    if (!match) {
+      throw new AddError(
+        `Invalid --service "${options.service}". Expected <name>.<method>, for example example.greet`
+      );
+    }
+    [, serviceName, serviceMethod] = match;
+  }
+
+  const config = await readProjectFile(projectDir, CONFIG_FILE);
+  const apps = [...config.matchAll(/appId:\s*(['"])([^'"]+)\1/g)].map((match) => ({
+    appId: match[2],
+    index: match.index!,
+  }));
+
+  if (apps.length === 0) {
+    throw new AddError(`${CONFIG_FILE} declares no apps with a literal appId`);
+  }
+
+  const escaped = routePath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (new RegExp(`path:\\s*(['"\`])${escaped}\\1`).test(config)) {
+    throw new AddError(`A route for ${routePath} already exists in ${CONFIG_FILE}`);
+  }
+
+  const firstSegment = routePath.split("/")[1];
+  const app = options.app
+    ? apps.find((candidate) => candidate.appId === options.app)
+    : apps.length === 1
+      ? apps[0]
+      : (apps.find((candidate) => candidate.appId === firstSegment) ?? apps[0]);
+
+  if (!app) {
+    throw new AddError(
+      `No app "${options.app}" in ${CONFIG_FILE}. Apps: ${apps.map((candidate) => candidate.appId).join(", ")}`
+    );
+  }
+
+  if (apps.filter((candidate) => candidate.appId === app.appId).length > 1) {
+    throw new AddError(`${CONFIG_FILE} declares app "${app.appId}" more than once`);
+  }
+
+  // The app's routes array must come after its appId and before the next app
+  const nextApp = apps.find((candidate) => candidate.index > app.index);
+  const routesMatch = /routes:\s*\[/g;
+  routesMatch.lastIndex = app.index;
+  const routes = routesMatch.exec(config);
+  const open = routes ? routes.index + routes[0].length - 1 : -1;
+  const close =
+    open !== -1 && (!nextApp || open < nextApp.index) ? findClosing(config, open) : -1;
+
+  if (close === -1) {
+    throw new AddError(
+      `Could not find a routes: [ ... ] array for app "${app.appId}" in ${CONFIG_FILE} that can be edited safely. Add the route by hand.`
+    );
+  }
+
+  const snippet = await renderSnippet("route.ts", {
+    path: routePath,
+    render,
+    serviceName: serviceName ?? "",
+    serviceMethod: serviceMethod ?? "",
+    serviceArgs: serviceArgs(routePath),
+  });
+
+  const indent = `${indentOf(config, open)}  `;
+  const entry = snippet
+    .trimEnd()
+    .split("\n")
+    .map((line) => (line ? `${indent}${line}` : line))
+    .join("\n");
+
+  // Imports sit above the apps, so they are edited after the routes array
+  let updated = appendEntry(config, open, close, entry);
+  if (serviceName) {
+    const helper = render === "streaming" ? "serviceDescriptor" : "callService";
+    updated = await importRouteDataHelper(projectDir, updated, helper);
+  }
+
+  await fs.writeFile(path.join(projectDir, CONFIG_FILE), updated);
+
+  return { appId: app.appId, created: [], updated: [CONFIG_FILE] };
+}
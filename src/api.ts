@@ -0,0 +1,65 @@
+/**
+ * Programmatic entry point: `import { createProject } from "@taujs/create-taujs"`.
+ * The CLI in index.ts is a wrapper around the same function.
+ */
+export { version } from "../package.json";
+export {
+  CommandError,
+  nodeCommandRunner,
+  type CommandOptions,
+  type CommandRunner,
+} from "./commands";
+export {
+  ProjectOptionsError,
+  ScaffoldCancelledError,
+  ScaffoldStepError,
+  TargetDirectoryError,
+  createProject,
+  type CreateProjectOptions,
+  type CreateProjectResult,
+  type InstallRetry,
+  type ProgressEvent,
+  type ScaffoldStep,
+} from "./create";
+export {
+  createMemoryFileSystem,
+  nodeFileSystem,
+  type FileSystem,
+  type MemoryFileSystem,
+} from "./fs";
+export type { GitResult } from "./git";
+export {
+  DEFAULT_INSTALL_TIMEOUT_MS,
+  INSTALL_LOG,
+  installDependencies,
+  type InstallOptions,
+  type InstallResult,
+  type NetworkMode,
+} from "./install";
+export { MANIFEST_FILE, type ProjectManifest } from "./manifest";
+export { validatePackageName } from "./names";
+export { DEPLOY_NAMES } from "./deploy";
+export { PACKAGE_MANAGER_NAMES } from "./package-managers";
+export {
+  PRESET_KEYS,
+  PresetError,
+  loadDefaults,
+  loadPreset,
+  savePreset,
+  validatePreset,
+  type Preset,
+} from "./presets";
+export { ROUTE_PRESET_NAMES } from "./route-presets";
+export { STYLING_NAMES } from "./styling";
+export { TemplateError, type TemplateFile } from "./templates";
+export type { Deploy, PackageManager, RoutePreset, Styling } from "./types";
+export {
+  UpgradeError,
+  upgradeProject,
+  type UpgradeAction,
+  type UpgradeFile,
+  type UpgradeOptions,
+  type UpgradeResult,
+} from "./upgrade";
+export type { VerifyCheck, VerifyReport } from "./verify";
+export { TAUJS_RELEASES, VersionError } from "./versions";
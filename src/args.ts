@@ -0,0 +1,538 @@
+import pc from "picocolors";
+
+import { DEPLOY_NAMES } from "./deploy";
+import { PACKAGE_MANAGER_NAMES } from "./package-managers";
+import { ROUTE_PRESET_NAMES } from "./route-presets";
+import { STYLING_NAMES } from "./styling";
+import type { Deploy, PackageManager, RoutePreset, Styling } from "./types";
+
+export const RENDER_MODES = ["ssr", "streaming"] as const;
+
+export type RenderMode = (typeof RENDER_MODES)[number];
+
+export type CliArgs = {
+  /** Target directory, or a scoped package name */
+  target?: string;
+  packageName?: string;
+  packageManager?: PackageManager;
+  installDeps?: boolean;
+  /** Seconds, as given */
+  installTimeout?: string;
+  git?: boolean;
+  verify?: boolean;
+  apps?: string;
+  routePreset?: RoutePreset;
+  styling?: Styling;
+  deploy?: Deploy;
+  taujsVersion?: string;
+  template?: string;
+  preset?: string;
+  savePreset?: string;
+  force?: boolean;
+  dryRun: boolean;
+  json: boolean;
+  content: boolean;
+  yes: boolean;
+  help: boolean;
+  version: boolean;
+};
+
+export type AddArgs = {
+  /** What to add: `service` or `route` */
+  kind?: string;
+  /** Service name or route path */
+  target?: string;
+  render?: RenderMode;
+  app?: string;
+  service?: string;
+  help: boolean;
+};
+
+export type UpgradeArgs = {
+  dryRun: boolean;
+  help: boolean;
+};
+
+export class CliArgsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliArgsError";
+  }
+}
+
+type BooleanKey<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends boolean ? K : never;
+}[keyof T];
+
+type StringKey<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends string ? K : never;
+}[keyof T];
+
+type FlagSpec<T> =
+  | {
+      kind: "boolean";
+      name: string;
+      key: BooleanKey<T>;
+      alias?: string;
+      negatable?: boolean;
+      description: string;
+    }
+  | {
+      kind: "string";
+      name: string;
+      key: StringKey<T>;
+      alias?: string;
+      valueName: string;
+      choices?: readonly string[];
+      description: string;
+    };
+
+const HELP_FLAG = {
+  kind: "boolean",
+  name: "help",
+  key: "help",
+  alias: "h",
+  description: "Show this help",
+} as const;
+
+const FLAGS: FlagSpec<CliArgs>[] = [
+  {
+    kind: "string",
+    name: "package-name",
+    key: "packageName",
+    valueName: "name",
+    description: "package.json name (default: derived from the directory)",
+  },
+  {
+    kind: "string",
+    name: "pm",
+    key: "packageManager",
+    valueName: "name",
+    choices: PACKAGE_MANAGER_NAMES,
+    description: "Package manager to use",
+  },
+  {
+    kind: "boolean",
+    name: "install",
+    key: "installDeps",
+    negatable: true,
+    description: "Install dependencies after scaffolding",
+  },
+  {
+    kind: "string",
+    name: "install-timeout",
+    key: "installTimeout",
+    valueName: "seconds",
+    description: "Stop the install after this long (default 600)",
+  },
+  {
+    kind: "boolean",
+    name: "verify",
+    key: "verify",
+    negatable: true,
+    description: "After installing, type-check the project and boot it once",
+  },
+  {
+    kind: "boolean",
+    name: "git",
+    key: "git",
+    negatable: true,
+    description: "Initialise a git repository with an initial commit",
+  },
+  {
+    kind: "string",
+    name: "apps",
+    key: "apps",
+    valueName: "ids",
+    description: "Comma-separated app IDs to compose on one server",
+  },
+  {
+    kind: "string",
+    name: "routes",
+    key: "routePreset",
+    valueName: "preset",
+    choices: ROUTE_PRESET_NAMES,
+    description: "Routes each app starts with",
+  },
+  {
+    kind: "string",
+    name: "styling",
+    key: "styling",
+    valueName: "strategy",
+    choices: STYLING_NAMES,
+    description: "How the UI is styled",
+  },
+  {
+    kind: "string",
+    name: "deploy",
+    key: "deploy",
+    valueName: "target",
+    choices: DEPLOY_NAMES,
+    description: "Deployment artifacts to generate",
+  },
+  {
+    kind: "string",
+    name: "taujs-version",
+    key: "taujsVersion",
+    valueName: "version",
+    description: "τjs release to pin dependencies to (default: newest tested)",
+  },
+  {
+    kind: "string",
+    name: "template",
+    key: "template",
+    valueName: "path",
+    description: "Local template directory or tarball to render over the default",
+  },
+  {
+    kind: "string",
+    name: "preset",
+    key: "preset",
+    valueName: "file",
+    description: "Answer the questions set in a JSON preset file",
+  },
+  {
+    kind: "string",
+    name: "save-preset",
+    key: "savePreset",
+    valueName: "file",
+    description: "Write this run's answers to a JSON preset file",
+  },
+  {
+    kind: "boolean",
+    name: "force",
+    key: "force",
+    alias: "f",
+    description: "Scaffold into a non-empty directory, overwriting conflicts",
+  },
+  {
+    kind: "boolean",
+    name: "dry-run",
+    key: "dryRun",
+    description: "Show what would be written without touching disk",
+  },
+  {
+    kind: "boolean",
+    name: "content",
+    key: "content",
+    description: "With --dry-run, also print each file's rendered content",
+  },
+  {
+    kind: "boolean",
+    name: "json",
+    key: "json",
+    description: "With --dry-run, print the result as JSON",
+  },
+  {
+    kind: "boolean",
+    name: "yes",
+    key: "yes",
+    alias: "y",
+    description: "Accept defaults for any answer not given as a flag",
+  },
+  HELP_FLAG,
+  {
+    kind: "boolean",
+    name: "version",
+    key: "version",
+    alias: "v",
+    description: "Show the create-taujs version",
+  },
+];
+
+const ADD_FLAGS: FlagSpec<AddArgs>[] = [
+  {
+    kind: "string",
+    name: "render",
+    key: "render",
+    valueName: "mode",
+    choices: RENDER_MODES,
+    description: "Render mode for add route (default ssr)",
+  },
+  {
+    kind: "string",
+    name: "app",
+    key: "app",
+    valueName: "id",
+    description: "App to add the route to (default: inferred from the path)",
+  },
+  {
+    kind: "string",
+    name: "service",
+    key: "service",
+    valueName: "name.method",
+    description: "Service method the route's data handler calls",
+  },
+  HELP_FLAG,
+];
+
+const UPGRADE_FLAGS: FlagSpec<UpgradeArgs>[] = [
+  {
+    kind: "boolean",
+    name: "dry-run",
+    key: "dryRun",
+    description: "Report what would change without writing anything",
+  },
+  HELP_FLAG,
+];
+
+function findFlag<T>(
+  flags: FlagSpec<T>[],
+  token: string
+): { spec: FlagSpec<T>; negated: boolean } | null {
+  if (token.startsWith("--")) {
+    const name = token.slice(2);
+    for (const spec of flags) {
+      if (spec.name === name) return { spec, negated: false };
+      if (spec.kind === "boolean" && spec.negatable && name === `no-${spec.name}`)
+        return { spec, negated: true };
+    }
+    return null;
+  }
+
+  const alias = token.slice(1);
+  const spec = flags.find((flag) => flag.alias === alias);
+  return spec ? { spec, negated: false } : null;
+}
+
+function displayName<T>(spec: FlagSpec<T>, negated = false) {
+  return `--${negated ? "no-" : ""}${spec.name}`;
+}
+
+function parseFlags<T extends object>(
+  rawArgs: string[],
+  flags: FlagSpec<T>[],
+  args: T,
+  positional: (value: string) => void
+): T {
+  const seen = new Map<keyof T, string>();
+
+  const assign = (spec: FlagSpec<T>, value: string | boolean, label: string) => {
+    const previous = seen.get(spec.key);
+    if (previous !== undefined && args[spec.key] !== value) {
+      throw new CliArgsError(`${label} conflicts with ${previous}`);
+    }
+    seen.set(spec.key, label);
+    (args as Record<keyof T, unknown>)[spec.key] = value;
+  };
+
+  for (let i = 0; i < rawArgs.length; i++) {
+    const arg = rawArgs[i];
+
+    if (arg === "--") {
+      for (const rest of rawArgs.slice(i + 1)) positional(rest);
+      break;
+    }
+
+    if (!arg.startsWith("-")) {
+      positional(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const token = eq === -1 ? arg : arg.slice(0, eq);
+    const inlineValue = eq === -1 ? undefined : arg.slice(eq + 1);
+    const match = findFlag(flags, token);
+
+    if (!match) throw new CliArgsError(`Unknown option ${token}`);
+
+    const { spec, negated } = match;
+    const label = displayName(spec, negated);
+
+    if (spec.kind === "boolean") {
+      if (inlineValue !== undefined) {
+        throw new CliArgsError(`${label} does not take a value`);
+      }
+      assign(spec, !negated, label);
+      continue;
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      const next = rawArgs[i + 1];
+      if (next === undefined || next.startsWith("-")) {
+        throw new CliArgsError(`${label} requires a <${spec.valueName}> value`);
+      }
+      value = next;
+      i++;
+    }
+
+    if (spec.choices && !spec.choices.includes(value)) {
+      throw new CliArgsError(
+        `Invalid value "${value}" for ${label}. Expected one of: ${spec.choices.join(", ")}`
+      );
+    }
+
+    assign(spec, value, `${label} ${value}`);
+  }
+
+  return args;
+}
+
+export function parseArgs(rawArgs: string[]): CliArgs {
+  const args: CliArgs = {
+    dryRun: false,
+    json: false,
+    content: false,
+    yes: false,
+    help: false,
+    version: false,
+  };
+
+  parseFlags(rawArgs, FLAGS, args, (value) => {
+    if (args.target !== undefined) {
+      throw new CliArgsError(
+        `Unexpected argument "${value}" (project directory already set to "${args.target}")`
+      );
+    }
+    args.target = value;
+  });
+
+  for (const key of ["json", "content"] as const) {
+    if (args[key] && !args.dryRun) {
+      throw new CliArgsError(`--${key} only applies with --dry-run`);
+    }
+  }
+
+  if (args.installTimeout !== undefined) {
+    if (!(Number(args.installTimeout) > 0)) {
+      throw new CliArgsError(
+        `Invalid value "${args.installTimeout}" for --install-timeout. Expected a number of seconds`
+      );
+    }
+    if (args.installDeps === false) {
+      throw new CliArgsError("--install-timeout has no effect with --no-install");
+    }
+  }
+
+  if (args.verify && args.installDeps === false) {
+    throw new CliArgsError("--verify needs dependencies installed; drop --no-install");
+  }
+
+  return args;
+}
+
+/** Parse the arguments that follow `create-taujs add` */
+export function parseAddArgs(rawArgs: string[]): AddArgs {
+  const args: AddArgs = { help: false };
+
+  parseFlags(rawArgs, ADD_FLAGS, args, (value) => {
+    if (args.kind === undefined) args.kind = value;
+    else if (args.target === undefined) args.target = value;
+    else throw new CliArgsError(`Unexpected argument "${value}"`);
+  });
+
+  if (args.help) return args;
+
+  if (args.kind !== "service" && args.kind !== "route") {
+    throw new CliArgsError(
+      args.kind === undefined
+        ? "Missing what to add. Expected: service or route"
+        : `Cannot add "${args.kind}". Expected: service or route`
+    );
+  }
+
+  if (args.target === undefined) {
+    throw new CliArgsError(
+      args.kind === "service"
+        ? "add service requires a <name>"
+        : "add route requires a <path>"
+    );
+  }
+
+  if (args.kind === "service") {
+    const routeOnly = (["render", "app", "service"] as const).find(
+      (key) => args[key] !== undefined
+    );
+    if (routeOnly) {
+      throw new CliArgsError(`--${routeOnly} only applies to add route`);
+    }
+  }
+
+  return args;
+}
+
+/** Parse the arguments that follow `create-taujs upgrade` */
+export function parseUpgradeArgs(rawArgs: string[]): UpgradeArgs {
+  return parseFlags(rawArgs, UPGRADE_FLAGS, { dryRun: false, help: false }, (value) => {
+    throw new CliArgsError(`Unexpected argument "${value}". Run upgrade from the project root.`);
+  });
+}
+
+function formatOptions<T>(flags: FlagSpec<T>[]) {
+  const rows = flags.map((spec) => {
+    let usage =
+      spec.kind === "boolean" && spec.negatable
+        ? `--[no-]${spec.name}`
+        : `--${spec.name}`;
+    if (spec.kind === "string") usage += ` <${spec.valueName}>`;
+    if (spec.alias) usage = `-${spec.alias}, ${usage}`;
+
+    const choices =
+      spec.kind === "string" && spec.choices
+        ? pc.dim(` (${spec.choices.join(" | ")})`)
+        : "";
+
+    return { usage, text: `${spec.description}${choices}` };
+  });
+
+  const width = Math.max(...rows.map((row) => row.usage.length)) + 2;
+
+  return rows.map((row) => `  ${row.usage.padEnd(width)}${row.text}`).join("\n");
+}
+
+export function formatHelp(version: string) {
+  return `${pc.cyan("create-taujs")} ${pc.dim(`v${version}`)}
+
+Scaffold a new τjs (taujs) application
+
+${pc.bold("Usage:")}
+  create-taujs [directory | @scope/name | .] [options]
+  create-taujs add <service|route> ...   ${pc.dim("(see create-taujs add --help)")}
+  create-taujs upgrade [--dry-run]       ${pc.dim("(see create-taujs upgrade --help)")}
+
+${pc.bold("Options:")}
+${formatOptions(FLAGS)}
+
+Any answer not given as a flag or by --preset is prompted for. When stdin is
+not a TTY, or with --yes, defaults are used instead and no prompt is shown.
+
+Defaults come from ~/.create-taujsrc.json and the nearest .create-taujsrc.json
+above the current directory, in the same JSON shape as a preset file.
+`;
+}
+
+export function formatAddHelp(version: string) {
+  return `${pc.cyan("create-taujs add")} ${pc.dim(`v${version}`)}
+
+Add to an existing τjs project. Run from the project root.
+
+${pc.bold("Usage:")}
+  create-taujs add service <name>
+  create-taujs add route <path> [--render ssr|streaming] [--app <id>] [--service <name.method>]
+
+${pc.bold("Options:")}
+${formatOptions(ADD_FLAGS)}
+
+A file is only edited when its shape is recognised; anything else is left
+untouched and reported.
+`;
+}
+
+export function formatUpgradeHelp(version: string) {
+  return `${pc.cyan("create-taujs upgrade")} ${pc.dim(`v${version}`)}
+
+Bring a project created by create-taujs up to this release's templates. Run
+from the project root.
+
+${pc.bold("Usage:")}
+  create-taujs upgrade [--dry-run]
+
+${pc.bold("Options:")}
+${formatOptions(UPGRADE_FLAGS)}
+
+Files you have not edited are replaced. Edited files are merged with the
+template's changes; where both touched the same lines, conflict markers are
+left in the file for you to resolve.
+`;
+}
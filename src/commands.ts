@@ -0,0 +1,95 @@
+import { spawn } from "child_process";
+
+export type CommandOptions = {
+  cwd: string;
+  signal?: AbortSignal;
+  /** Show the command's output in the terminal instead of capturing it */
+  inherit?: boolean;
+  /** Added to the inherited environment */
+  env?: Record<string, string>;
+  /** Called with stdout and stderr as they arrive, when captured */
+  onOutput?: (chunk: string) => void;
+};
+
+/**
+ * Runs an external command (the package manager, git) and resolves with its
+ * captured stdout. Rejects with a `CommandError` when it cannot be started or
+ * exits unsuccessfully.
+ */
+export type CommandRunner = (
+  command: string,
+  args: string[],
+  options: CommandOptions
+) => Promise<string>;
+
+export class CommandError extends Error {
+  constructor(
+    readonly command: string,
+    /** Null when the command was killed by a signal or never started */
+    readonly exitCode: number | null,
+    readonly signal: NodeJS.Signals | null,
+    readonly stderr: string
+  ) {
+    super(
+      stderr.trim() ||
+        (signal
+          ? `${command} was killed by ${signal}`
+          : `${command} exited with code ${exitCode}`)
+    );
+    this.name = "CommandError";
+  }
+}
+
+export const nodeCommandRunner: CommandRunner = (
+  command,
+  args,
+  { cwd, signal, inherit = false, env, onOutput }
+) =>
+  new Promise((resolve, reject) => {
+    const label = [command, ...args].join(" ");
+    const child = spawn(command, args, {
+      cwd,
+      signal,
+      env: { ...process.env, ...env },
+      stdio: inherit ? "inherit" : ["ignore", "pipe", "pipe"],
+      // npm, pnpm and yarn are .cmd shims on Windows
+      shell: process.platform === "win32",
+    });
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout?.on("data", (chunk) => {
+      stdout += chunk;
+      onOutput?.(String(chunk));
+    });
+    child.stderr?.on("data", (chunk) => {
+      stderr += chunk;
+      onOutput?.(String(chunk));
+    });
+
+    child.on("error", (error) => {
+      reject(new CommandError(label, null, null, error.message));
+    });
+    child.on("close", (code, killedBy) => {
+      if (code === 0) resolve(stdout.trim());
+      else reject(new CommandError(label, code, killedBy, stderr));
+    });
+  });
+
+/** An AbortSignal that fires after `ms`, or when `parent` does */
+export function timeoutSignal(
+  ms: number,
+  parent?: AbortSignal
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ms);
+  const onAbort = () => controller.abort();
+  parent?.addEventListener("abort", onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener("abort", onAbort);
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { createTwoFilesPatch } from "diff";
+import fs from "fs-extra";
+import path from "path";
+import pc from "picocolors";
+import prompts from "prompts";
+
+import { nodeFileSystem, type FileSystem } from "./fs";
+import type { TemplateFile } from "./templates";
+
+/**
+ * Entries that do not count against a directory being "empty": version
+ * control metadata, licence files and OS litter. A fresh `git clone` of an
+ * empty repository with a LICENSE can be scaffolded into without --force.
+ */
+const IGNORABLE_ENTRIES = [
+  /^\.git$/,
+  /^\.hg$/,
+  /^\.svn$/,
+  /^\.gitattributes$/,
+  /^\.DS_Store$/,
+  /^Thumbs\.db$/,
+  /^(LICENSE|LICENCE|COPYING|UNLICENSE)(\.(md|txt))?$/i,
+];
+
+export type TargetState =
+  | { kind: "missing" }
+  | { kind: "empty" }
+  | { kind: "not-empty"; entries: string[] }
+  | { kind: "not-a-directory" };
+
+export async function inspectTarget(
+  targetDir: string,
+  fileSystem: FileSystem = nodeFileSystem
+): Promise<TargetState> {
+  const stat = await fileSystem.stat(targetDir);
+  if (!stat) return { kind: "missing" };
+  if (!stat.isDirectory) return { kind: "not-a-directory" };
+
+  const entries = (await fileSystem.readdir(targetDir)).filter(
+    (entry) => !IGNORABLE_ENTRIES.some((pattern) => pattern.test(entry))
+  );
+
+  return entries.length === 0 ? { kind: "empty" } : { kind: "not-empty", entries };
+}
+
+/** Paths among `files` that already exist in `targetDir` */
+export async function findConflicts(
+  targetDir: string,
+  files: TemplateFile[],
+  fileSystem: FileSystem = nodeFileSystem
+): Promise<string[]> {
+  const conflicts: string[] = [];
+  for (const file of files) {
+    if (await fileSystem.exists(path.join(targetDir, file.path))) {
+      conflicts.push(file.path);
+    }
+  }
+  return conflicts;
+}
+
+async function showDiff(targetDir: string, file: TemplateFile) {
+  const current = await fs.readFile(path.join(targetDir, file.path), "utf8");
+  const patch = createTwoFilesPatch(
+    `${file.path} (existing)`,
+    `${file.path} (create-taujs)`,
+    current,
+    file.contents.toString("utf8")
+  );
+
+  const lines = patch.split("\n").slice(2);
+  console.log(
+    lines
+      .map((line) =>
+        line.startsWith("+")
+          ? pc.green(line)
+          : line.startsWith("-")
+            ? pc.red(line)
+            : line.startsWith("@@")
+              ? pc.cyan(line)
+              : line
+      )
+      .join("\n")
+  );
+}
+
+/**
+ * Ask what to do with each file that would overwrite an existing one.
+ * Returns the paths the user chose to keep. Resolves to `null` when the
+ * prompt is cancelled.
+ */
+export async function resolveConflicts(
+  targetDir: string,
+  files: TemplateFile[],
+  conflicts: string[]
+): Promise<Set<string> | null> {
+  const skipped = new Set<string>();
+  let remaining: "overwrite" | "skip" | undefined;
+
+  for (const conflict of conflicts) {
+    if (remaining === "skip") skipped.add(conflict);
+    if (remaining) continue;
+
+    const file = files.find((candidate) => candidate.path === conflict)!;
+
+    for (;;) {
+      const { action } = await prompts({
+        type: "select",
+        name: "action",
+        message: `${conflict} already exists:`,
+        choices: [
+          { title: "Overwrite", value: "overwrite" },
+          { title: "Skip (keep existing file)", value: "skip" },
+          { title: "Show diff", value: "diff" },
+          { title: "Overwrite this and all remaining", value: "overwrite-all" },
+          { title: "Skip this and all remaining", value: "skip-all" },
+        ],
+        initial: 0,
+      });
+
+      if (action === undefined) return null;
+
+      if (action === "diff") {
+        await showDiff(targetDir, file);
+        continue;
+      }
+
+      if (action === "skip" || action === "skip-all") skipped.add(conflict);
+      if (action === "overwrite-all") remaining = "overwrite";
+      if (action === "skip-all") remaining = "skip";
+      break;
+    }
+  }
+
+  return skipped;
+}
+
+export type MergeJournal = {
+  moved: string[];
+  backedUp: string[];
+  createdDirs: string[];
+};
+
+export function createMergeJournal(): MergeJournal {
+  return { moved: [], backedUp: [], createdDirs: [] };
+}
+
+/**
+ * Move staged files into an existing directory. Files being replaced are
+ * first moved aside into `backupDir`, and every step is recorded in
+ * `journal` so that `rollbackMerge` can restore the directory exactly.
+ */
+export async function mergeIntoDirectory(
+  stagingDir: string,
+  targetDir: string,
+  backupDir: string,
+  files: TemplateFile[],
+  journal: MergeJournal,
+  fileSystem: FileSystem = nodeFileSystem
+) {
+  for (const file of files) {
+    const dest = path.join(targetDir, file.path);
+
+    let dir = path.dirname(dest);
+    while (!(await fileSystem.exists(dir))) {
+      journal.createdDirs.push(dir);
+      dir = path.dirname(dir);
+    }
+    await fileSystem.mkdir(path.dirname(dest));
+
+    if (await fileSystem.exists(dest)) {
+      await fileSystem.move(dest, path.join(backupDir, file.path));
+      journal.backedUp.push(file.path);
+    }
+
+    await fileSystem.move(path.join(stagingDir, file.path), dest);
+    journal.moved.push(file.path);
+  }
+}
+
+/** Undo a partial or complete `mergeIntoDirectory` */
+export async function rollbackMerge(
+  targetDir: string,
+  backupDir: string,
+  journal: MergeJournal,
+  fileSystem: FileSystem = nodeFileSystem
+) {
+  for (const rel of [...journal.moved].reverse()) {
+    await fileSystem.remove(path.join(targetDir, rel));
+  }
+  for (const rel of [...journal.backedUp].reverse()) {
+    const dest = path.join(targetDir, rel);
+    await fileSystem.remove(dest);
+    await fileSystem.move(path.join(backupDir, rel), dest);
+  }
+  for (const dir of [...journal.createdDirs].reverse()) {
+    await fileSystem.remove(dir);
+  }
+}
@@ -0,0 +1,588 @@
+import path from "path";
+
+import { version } from "../package.json";
+import { nodeCommandRunner, type CommandRunner } from "./commands";
+import { isDeploy } from "./deploy";
+import {
+  createMergeJournal,
+  findConflicts,
+  inspectTarget,
+  mergeIntoDirectory,
+  rollbackMerge,
+  type TargetState,
+} from "./conflicts";
+import { nodeFileSystem, type FileSystem } from "./fs";
+import { appLayouts, renderProjectFiles, writeProjectFiles } from "./generate";
+import { initGitRepository, type GitResult } from "./git";
+import {
+  INSTALL_ARTIFACTS,
+  INSTALL_LOG,
+  installDependencies,
+  type InstallResult,
+  type NetworkMode,
+} from "./install";
+import { resolveProjectTarget, validateAppIds, validatePackageName } from "./names";
+import { PACKAGE_MANAGERS, isPackageManager, runCommand } from "./package-managers";
+import type { TemplateFile } from "./templates";
+import { isRoutePreset } from "./route-presets";
+import { isStyling } from "./styling";
+import type {
+  Deploy,
+  PackageManager,
+  ProjectConfig,
+  RoutePreset,
+  Styling,
+} from "./types";
+import { verifyProject, type VerifyReport } from "./verify";
+import { resolveTaujsVersion } from "./versions";
+
+export type ScaffoldStep =
+  | "checking the target directory"
+  | "preparing a staging directory"
+  | "rendering templates"
+  | "checking for conflicting files"
+  | "resolving conflicts"
+  | "writing project files"
+  | "moving the project into place"
+  | "installing dependencies"
+  | "switching package manager"
+  | "verifying the project"
+  | "initialising a git repository";
+
+export type ProgressEvent =
+  | { type: "step"; step: ScaffoldStep }
+  /** Every file is in place; `kept` are conflicting files left untouched */
+  | { type: "written"; files: string[]; kept: string[] }
+  /** Output of the install, as it arrives, unless `inheritOutput` is set */
+  | { type: "install-output"; chunk: string };
+
+export type CreateProjectOptions = {
+  /**
+   * Directory to scaffold into, relative to `cwd`. A scoped package name
+   * (`@acme/storefront`) scaffolds into its unscoped part.
+   */
+  targetDir: string;
+  /** Defaults to a name derived from `targetDir` */
+  packageName?: string;
+  /** Defaults to npm */
+  packageManager?: PackageManager;
+  /** Exact version for the package.json `packageManager` field */
+  packageManagerVersion?: string;
+  /** Defaults to true */
+  installDeps?: boolean;
+  /** Lint and smoke-boot the project after installing. Defaults to false */
+  verify?: boolean;
+  /** Defaults to true */
+  git?: boolean;
+  /** Defaults to a single `main` app */
+  apps?: string[];
+  /** Defaults to `mixed`: an SSR and a streaming route per app */
+  routePreset?: RoutePreset;
+  /** Defaults to plain CSS */
+  styling?: Styling;
+  /** Defaults to `none`; `docker` adds a Dockerfile and .dockerignore */
+  deploy?: Deploy;
+  /** Defaults to the newest τjs release tested with this version */
+  taujsVersion?: string;
+  template?: string;
+  /** Overwrite conflicting files in a non-empty target */
+  force?: boolean;
+  /** Defaults to `process.cwd()` */
+  cwd?: string;
+  fileSystem?: FileSystem;
+  runCommand?: CommandRunner;
+  /** Aborting rolls back everything written and rejects with `ScaffoldCancelledError` */
+  signal?: AbortSignal;
+  /** Let the install write to the terminal instead of capturing and logging its output */
+  inheritOutput?: boolean;
+  /** Milliseconds before the install is stopped and reported as failed. Defaults to 10 minutes */
+  installTimeout?: number;
+  /**
+   * Asked before scaffolding into a non-empty directory without `force`.
+   * Without it, a non-empty target is a `TargetDirectoryError`.
+   */
+  confirmNonEmpty?: (entries: string[]) => Promise<boolean>;
+  /**
+   * Picks which conflicting files to keep, or null to cancel. Without it,
+   * conflicts are a `TargetDirectoryError` unless `force` is set.
+   */
+  resolveConflicts?: (
+    conflicts: string[],
+    files: TemplateFile[]
+  ) => Promise<Set<string> | null>;
+  /**
+   * Asked after a failed install. Resolves to how to try again, or null to
+   * give up and report the failure. Without it, a failed install is not retried.
+   */
+  retryInstall?: (
+    install: InstallResult,
+    packageManager: PackageManager
+  ) => Promise<InstallRetry | null>;
+  onProgress?: (event: ProgressEvent) => void;
+};
+
+export type InstallRetry = {
+  network?: NetworkMode;
+  /**
+   * Install with another package manager instead. Files that mention the
+   * package manager are rendered again for it, and whatever the failed
+   * install left behind is removed first.
+   */
+  packageManager?: PackageManager;
+  packageManagerVersion?: string;
+};
+
+export type CreateProjectResult = {
+  /** Absolute path of the project */
+  targetDir: string;
+  packageName: string;
+  /** The one dependencies were installed with, if a retry switched it */
+  packageManager: PackageManager;
+  taujsVersion: string;
+  /** Files written, relative to `targetDir` */
+  files: string[];
+  /** Conflicting files that were left as they were */
+  kept: string[];
+  install: InstallResult;
+  /** Null when verification was not requested */
+  verify: VerifyReport | null;
+  /** Null when git was not requested */
+  git: GitResult | null;
+  /** Commands to run next, in order */
+  nextSteps: string[];
+  /** Combinations that are allowed but were not tested together */
+  warnings: string[];
+};
+
+/** The options themselves are invalid; nothing was touched */
+export class ProjectOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectOptionsError";
+  }
+}
+
+/** The target cannot be scaffolded into as things stand; nothing was touched */
+export class TargetDirectoryError extends Error {
+  constructor(
+    readonly reason: "not-a-directory" | "not-empty" | "conflicts",
+    message: string,
+    /** Entries in the way: the directory's contents or the conflicting files */
+    readonly entries: string[] = []
+  ) {
+    super(message);
+    this.name = "TargetDirectoryError";
+  }
+}
+
+/** A step failed; everything written so far was rolled back */
+export class ScaffoldStepError extends Error {
+  constructor(
+    readonly step: ScaffoldStep,
+    readonly cause: unknown
+  ) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = "ScaffoldStepError";
+  }
+}
+
+/** Aborted or declined; everything written so far was rolled back */
+export class ScaffoldCancelledError extends Error {
+  constructor(
+    readonly step: ScaffoldStep,
+    message: string
+  ) {
+    super(message);
+    this.name = "ScaffoldCancelledError";
+  }
+}
+
+function listEntries(entries: string[]) {
+  const more = entries.length > 5 ? `, +${entries.length - 5} more` : "";
+  return `${entries.slice(0, 5).join(", ")}${more}`;
+}
+
+/**
+ * Inspect the target directory as createProject does before writing. A path
+ * that is not a directory throws; a non-empty directory without `force` is
+ * returned as a conflict, which needs confirming.
+ */
+export async function checkTarget(
+  targetDir: string,
+  config: Pick<ProjectConfig, "targetDir" | "force">,
+  fileSystem: FileSystem = nodeFileSystem
+): Promise<{
+  target: TargetState;
+  conflict: { message: string; entries: string[] } | null;
+}> {
+  const target = await inspectTarget(targetDir, fileSystem);
+
+  if (target.kind === "not-a-directory") {
+    throw new TargetDirectoryError(
+      "not-a-directory",
+      `${config.targetDir} exists and is not a directory`
+    );
+  }
+
+  if (target.kind === "not-empty" && !config.force) {
+    return {
+      target,
+      conflict: {
+        message: `Directory ${config.targetDir} is not empty (${listEntries(target.entries)})`,
+        entries: target.entries,
+      },
+    };
+  }
+
+  return { target, conflict: null };
+}
+
+function shellQuote(value: string) {
+  return /[\s'"$`\\]/.test(value) ? JSON.stringify(value) : value;
+}
+
+function resolveConfig(options: CreateProjectOptions, cwd: string) {
+  const target = resolveProjectTarget(options.targetDir, cwd);
+  const packageName = options.packageName ?? target.packageName;
+  const packageManager = options.packageManager ?? "npm";
+  const apps = options.apps ?? ["main"];
+  const routePreset = options.routePreset ?? "mixed";
+  const styling = options.styling ?? "css";
+  const deploy = options.deploy ?? "none";
+
+  const nameRes = validatePackageName(packageName);
+  if (nameRes !== true) {
+    throw new ProjectOptionsError(`Invalid package name "${packageName}": ${nameRes}`);
+  }
+  if (!isPackageManager(packageManager)) {
+    throw new ProjectOptionsError(`Unknown package manager "${packageManager}"`);
+  }
+  const appsRes = validateAppIds(apps);
+  if (appsRes !== true) throw new ProjectOptionsError(appsRes);
+  if (!isRoutePreset(routePreset)) {
+    throw new ProjectOptionsError(`Unknown route preset "${routePreset}"`);
+  }
+  if (!isStyling(styling)) {
+    throw new ProjectOptionsError(`Unknown styling strategy "${styling}"`);
+  }
+  if (!isDeploy(deploy)) {
+    throw new ProjectOptionsError(`Unknown deploy target "${deploy}"`);
+  }
+
+  const { taujsVersion, warnings } = resolveTaujsVersion(options.taujsVersion, version);
+
+  const config: ProjectConfig = {
+    packageName,
+    targetDir: target.targetDir,
+    packageManager,
+    packageManagerVersion: options.packageManagerVersion,
+    installDeps: options.installDeps ?? true,
+    verify: options.verify ?? false,
+    git: options.git ?? true,
+    taujsVersion,
+    apps,
+    routePreset,
+    styling,
+    deploy,
+    template: options.template,
+    force: options.force ?? false,
+  };
+
+  return { config, warnings };
+}
+
+/**
+ * Scaffold a τjs project.
+ *
+ * Everything is generated into a staging directory first. A new project is
+ * then moved into place in one step; an existing directory has files moved
+ * in one by one with every replaced file backed up, so a failure or abort
+ * can restore exactly what was there before. An install failure is reported
+ * in the result rather than thrown, as the project itself is complete.
+ */
+export async function createProject(
+  options: CreateProjectOptions
+): Promise<CreateProjectResult> {
+  const cwd = options.cwd ?? process.cwd();
+  const fileSystem = options.fileSystem ?? nodeFileSystem;
+  const run = options.runCommand ?? nodeCommandRunner;
+  const { signal, onProgress } = options;
+  const { config, warnings } = resolveConfig(options, cwd);
+  const targetDir = path.resolve(cwd, config.targetDir);
+
+  let step: ScaffoldStep = "checking the target directory";
+  const enter = (next: ScaffoldStep) => {
+    if (signal?.aborted) throw new ScaffoldCancelledError(step, "");
+    step = next;
+    onProgress?.({ type: "step", step });
+  };
+
+  onProgress?.({ type: "step", step });
+  const { target, conflict } = await checkTarget(targetDir, config, fileSystem);
+
+  if (conflict) {
+    if (!options.confirmNonEmpty) {
+      throw new TargetDirectoryError("not-empty", conflict.message, conflict.entries);
+    }
+    if (!(await options.confirmNonEmpty(conflict.entries))) {
+      throw new ScaffoldCancelledError(step, "Cancelled. Nothing was changed.");
+    }
+  }
+
+  const existing = target.kind !== "missing";
+  let staging: string | undefined;
+  let created = false;
+  const journal = createMergeJournal();
+  const backupDir = () => `${staging}-backup`;
+  // Install artifacts are left behind by an interrupted install; rollback
+  // removes them unless they were already there before we started
+  const preexistingArtifacts: string[] = [];
+
+  if (existing) {
+    for (const name of [...INSTALL_ARTIFACTS, INSTALL_LOG]) {
+      if (await fileSystem.exists(path.join(targetDir, name))) {
+        preexistingArtifacts.push(name);
+      }
+    }
+  }
+
+  // mkdir creates the missing parents of a new nested target, such as apps/
+  // for apps/storefront; rollback removes the outermost of them
+  let createdParent: string | undefined;
+  if (!existing) {
+    let dir = path.dirname(targetDir);
+    while (!(await fileSystem.exists(dir))) {
+      createdParent = dir;
+      dir = path.dirname(dir);
+    }
+  }
+
+  const rollback = async () => {
+    if (existing) {
+      if (staging) await rollbackMerge(targetDir, backupDir(), journal, fileSystem);
+      for (const name of [...INSTALL_ARTIFACTS, INSTALL_LOG]) {
+        if (!preexistingArtifacts.includes(name)) {
+          await fileSystem.remove(path.join(targetDir, name));
+        }
+      }
+    }
+    if (staging) {
+      await fileSystem.remove(staging);
+      await fileSystem.remove(backupDir());
+    }
+    if (created) await fileSystem.remove(targetDir);
+    if (createdParent) await fileSystem.remove(createdParent);
+  };
+
+  const cancelled = () =>
+    new ScaffoldCancelledError(
+      step,
+      `Cancelled while ${step}. ${
+        existing ? `${config.targetDir} was restored.` : "Nothing was left behind."
+      }`
+    );
+
+  let files: TemplateFile[];
+  let kept = new Set<string>();
+
+  try {
+    enter("preparing a staging directory");
+    // Staging sits inside an existing target (its parent may not be
+    // writable, e.g. when scaffolding into ".") and next to a new one
+    const stagingParent = existing ? targetDir : path.dirname(targetDir);
+    await fileSystem.mkdir(stagingParent);
+    staging = await fileSystem.mkdtemp(
+      path.join(
+        stagingParent,
+        existing ? ".create-taujs-" : `.${path.basename(targetDir)}-`
+      )
+    );
+
+    enter("rendering templates");
+    files = await renderProjectFiles(config, cwd);
+
+    if (existing) {
+      enter("checking for conflicting files");
+      const conflicts = await findConflicts(targetDir, files, fileSystem);
+
+      if (conflicts.length > 0 && !config.force) {
+        if (!options.resolveConflicts) {
+          throw new TargetDirectoryError(
+            "conflicts",
+            `${conflicts.length} file(s) would be overwritten (${conflicts.join(", ")})`,
+            conflicts
+          );
+        }
+
+        enter("resolving conflicts");
+        const resolution = await options.resolveConflicts(conflicts, files);
+        if (!resolution) throw cancelled();
+        kept = resolution;
+        files = files.filter((file) => !kept.has(file.path));
+      }
+    }
+
+    enter("writing project files");
+    await writeProjectFiles(staging, files, fileSystem);
+
+    enter("moving the project into place");
+    if (existing) {
+      await mergeIntoDirectory(staging, targetDir, backupDir(), files, journal, fileSystem);
+    } else {
+      await fileSystem.move(staging, targetDir);
+      staging = undefined;
+      created = true;
+    }
+  } catch (error) {
+    await rollback();
+    if (signal?.aborted || error instanceof ScaffoldCancelledError) throw cancelled();
+    if (error instanceof TargetDirectoryError) throw error;
+    throw new ScaffoldStepError(step, error);
+  }
+
+  onProgress?.({
+    type: "written",
+    files: files.map((file) => file.path),
+    kept: [...kept],
+  });
+
+  let install: InstallResult = {
+    status: "skipped",
+    command: PACKAGE_MANAGERS[config.packageManager].install,
+  };
+
+  if (config.installDeps) {
+    try {
+      let network: NetworkMode = "online";
+      for (;;) {
+        enter("installing dependencies");
+        install = await installDependencies(targetDir, {
+          packageManager: config.packageManager,
+          network,
+          timeoutMs: options.installTimeout,
+          runCommand: run,
+          fileSystem,
+          signal,
+          inherit: options.inheritOutput,
+          onOutput: (chunk) => onProgress?.({ type: "install-output", chunk }),
+        });
+        if (signal?.aborted) throw cancelled();
+        if (install.status === "installed" || !options.retryInstall) break;
+
+        const retry = await options.retryInstall(install, config.packageManager);
+        if (!retry) break;
+        network = retry.network ?? "online";
+
+        if (retry.packageManager && retry.packageManager !== config.packageManager) {
+          enter("switching package manager");
+          for (const name of install.created ?? []) {
+            await fileSystem.remove(path.join(targetDir, name));
+          }
+          config.packageManager = retry.packageManager;
+          config.packageManagerVersion = retry.packageManagerVersion;
+
+          const rendered = (await renderProjectFiles(config, cwd)).filter(
+            (file) => !kept.has(file.path)
+          );
+          for (const file of files) {
+            if (!rendered.some((next) => next.path === file.path)) {
+              await fileSystem.remove(path.join(targetDir, file.path));
+            }
+          }
+          await writeProjectFiles(targetDir, rendered, fileSystem);
+          for (const file of rendered) {
+            if (!journal.moved.includes(file.path)) journal.moved.push(file.path);
+          }
+          files = rendered;
+        }
+      }
+    } catch (error) {
+      // A half-populated node_modules is worse than no project at all
+      await rollback();
+      if (signal?.aborted || error instanceof ScaffoldCancelledError) throw cancelled();
+      throw new ScaffoldStepError(step, error);
+    }
+  }
+
+  let verify: VerifyReport | null = null;
+  if (config.verify) {
+    if (install.status !== "installed") {
+      verify = {
+        status: "skipped",
+        reason: "dependencies are not installed",
+        checks: [],
+      };
+    } else {
+      try {
+        enter("verifying the project");
+        verify = await verifyProject(targetDir, {
+          packageManager: config.packageManager,
+          // Client-rendered routes have no server output to check
+          paths: appLayouts(config.apps, config.routePreset).flatMap((app) =>
+            app.routes
+              .filter((route) => route.kind !== "client")
+              .map((route) => route.path)
+          ),
+          runCommand: run,
+          signal,
+        });
+      } catch (error) {
+        // Failing checks are in the report; this is the checks themselves
+        // breaking, which says nothing against the installed project
+        if (!(error instanceof ScaffoldCancelledError) && !signal?.aborted) {
+          verify = {
+            status: "failed",
+            checks: [
+              {
+                name: "verify",
+                passed: false,
+                detail: `could not run: ${error instanceof Error ? error.message : String(error)}`,
+                log: error instanceof Error ? (error.stack ?? "") : "",
+              },
+            ],
+          };
+        }
+      }
+      if (signal?.aborted) {
+        await rollback();
+        throw cancelled();
+      }
+    }
+  }
+
+  if (staging) {
+    await fileSystem.remove(staging);
+    await fileSystem.remove(backupDir());
+  }
+
+  let git: GitResult | null = null;
+  // After the install, so the lockfile is part of the initial commit
+  if (config.git) {
+    step = "initialising a git repository";
+    onProgress?.({ type: "step", step });
+    git = await initGitRepository(targetDir, { runCommand: run, fileSystem });
+  }
+
+  const nextSteps: string[] = [];
+  if (targetDir !== path.resolve(cwd)) {
+    nextSteps.push(`cd ${shellQuote(config.targetDir)}`);
+  }
+  if (install.status !== "installed") {
+    nextSteps.push(PACKAGE_MANAGERS[config.packageManager].install);
+  }
+  nextSteps.push(runCommand(config.packageManager, "dev"));
+
+  return {
+    targetDir,
+    packageName: config.packageName,
+    packageManager: config.packageManager,
+    taujsVersion: config.taujsVersion,
+    files: files.map((file) => file.path),
+    kept: [...kept],
+    install,
+    verify,
+    git,
+    nextSteps,
+    warnings,
+  };
+}
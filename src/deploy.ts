@@ -0,0 +1,102 @@
+import { PACKAGE_MANAGERS } from "./package-managers";
+import type { Deploy, PackageManager } from "./types";
+
+type DeployTargetInfo = {
+  label: string;
+  hint: string;
+};
+
+export const DEPLOY_TARGETS: Record<Deploy, DeployTargetInfo> = {
+  none: {
+    label: "None",
+    hint: "run build and start on a Node host",
+  },
+  docker: {
+    label: "Docker",
+    hint: "a multi-stage Dockerfile and .dockerignore",
+  },
+};
+
+export const DEPLOY_NAMES = Object.keys(DEPLOY_TARGETS) as Deploy[];
+
+export function isDeploy(value: string): value is Deploy {
+  return value in DEPLOY_TARGETS;
+}
+
+export type DockerSteps = {
+  /** Major version of the `node` base image */
+  nodeVersion: string;
+  /** Dockerfile instructions that make the package manager available */
+  setup: string[];
+  lockfile: string;
+  /** Files copied before installing, so the install layer is cached */
+  manifests: string;
+  install: string;
+  /** Installs only `dependencies`, for the final image */
+  installProduction: string;
+  build: string;
+};
+
+/**
+ * The package manager commands for each stage of the Dockerfile. pnpm and
+ * Yarn come from Corepack, which honours the `packageManager` field; bun is
+ * installed from npm, and the final image runs on Node either way.
+ */
+export function dockerSteps(
+  packageManager: PackageManager,
+  packageManagerVersion: string | undefined,
+  nodeVersion: string
+): DockerSteps {
+  const lockfile = PACKAGE_MANAGERS[packageManager].lockfiles[0];
+  const common = {
+    nodeVersion,
+    lockfile,
+    manifests: `package.json ${lockfile}`,
+    build: `${PACKAGE_MANAGERS[packageManager].run} build`,
+  };
+  const corepack = ["ENV COREPACK_ENABLE_DOWNLOAD_PROMPT=0", "RUN corepack enable"];
+
+  switch (packageManager) {
+    case "npm":
+      return {
+        ...common,
+        setup: [],
+        install: "npm ci",
+        installProduction: "npm ci --omit=dev",
+      };
+    case "pnpm":
+      return {
+        ...common,
+        setup: corepack,
+        install: "pnpm install --frozen-lockfile",
+        installProduction: "pnpm install --frozen-lockfile --prod",
+      };
+    case "yarn": {
+      // Without a `packageManager` field Corepack falls back to Yarn 1
+      const classic = !packageManagerVersion || packageManagerVersion.startsWith("1.");
+      return classic
+        ? {
+            ...common,
+            setup: corepack,
+            install: "yarn install --frozen-lockfile",
+            installProduction: "yarn install --frozen-lockfile --production",
+          }
+        : {
+            ...common,
+            // The final image copies node_modules, so Plug'n'Play is turned off
+            setup: [...corepack, "ENV YARN_NODE_LINKER=node-modules"],
+            install: "yarn install --immutable",
+            installProduction: "yarn workspaces focus --production",
+          };
+    }
+    case "bun":
+      return {
+        ...common,
+        // bun.lock, or bun.lockb from bun releases before 1.2
+        manifests: "package.json bun.lock*",
+        setup: [`RUN npm install --global bun@${packageManagerVersion ?? "1"}`],
+        install: "bun install --frozen-lockfile",
+        installProduction: "bun install --frozen-lockfile --production",
+      };
+  }
+}
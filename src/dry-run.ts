@@ -0,0 +1,164 @@
+import path from "path";
+import pc from "picocolors";
+
+import { findConflicts } from "./conflicts";
+import { checkTarget } from "./create";
+import { createMemoryFileSystem } from "./fs";
+import { renderProjectFiles, writeProjectFiles } from "./generate";
+import { PACKAGE_MANAGERS } from "./package-managers";
+import type { ProjectConfig } from "./types";
+
+export type DryRunFile = {
+  path: string;
+  bytes: number;
+  /** An existing file at this path would be replaced */
+  overwrites: boolean;
+  contents?: string;
+};
+
+export type DryRunReport = {
+  targetDir: string;
+  files: DryRunFile[];
+  totalBytes: number;
+  /**
+   * Why scaffolding would stop before writing: the target is not empty and
+   * `force` is off. The CLI asks first when it can, and fails otherwise.
+   */
+  targetConflict: string | null;
+  /** The install command that would run, or null when install is off */
+  install: string | null;
+  /** Whether the project would be linted and smoke-booted after install */
+  verify: boolean;
+  /** Whether a git repository would be initialised */
+  git: boolean;
+};
+
+/**
+ * Run project generation against an in-memory filesystem. Templates are read
+ * from disk and the target is checked as createProject checks it, including
+ * for files that would be overwritten, but nothing is written and no install
+ * runs. A target that is not a directory throws a TargetDirectoryError.
+ */
+export async function dryRun(
+  config: ProjectConfig,
+  { contents = false }: { contents?: boolean } = {}
+): Promise<DryRunReport> {
+  const targetDir = path.resolve(process.cwd(), config.targetDir);
+  const { conflict } = await checkTarget(targetDir, config);
+  const memory = createMemoryFileSystem();
+  const rendered = await renderProjectFiles(config);
+
+  await writeProjectFiles(targetDir, rendered, memory);
+
+  const conflicts = new Set(await findConflicts(targetDir, rendered));
+  const files: DryRunFile[] = [];
+
+  for (const [file, buffer] of memory.files) {
+    const rel = path.relative(targetDir, file).split(path.sep).join("/");
+    files.push({
+      path: rel,
+      bytes: buffer.length,
+      overwrites: conflicts.has(rel),
+      ...(contents ? { contents: buffer.toString("utf8") } : {}),
+    });
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  return {
+    targetDir,
+    files,
+    totalBytes: files.reduce((sum, file) => sum + file.bytes, 0),
+    targetConflict: conflict?.message ?? null,
+    install: config.installDeps
+      ? PACKAGE_MANAGERS[config.packageManager].install
+      : null,
+    verify: config.verify,
+    git: config.git,
+  };
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} kB`;
+}
+
+type TreeNode = { children: Map<string, TreeNode>; file?: DryRunFile };
+
+export function formatTree(report: DryRunReport) {
+  const root: TreeNode = { children: new Map() };
+
+  for (const file of report.files) {
+    let node = root;
+    for (const segment of file.path.split("/")) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { children: new Map() });
+      }
+      node = node.children.get(segment)!;
+    }
+    node.file = file;
+  }
+
+  const lines = [pc.bold(`${path.basename(report.targetDir)}/`)];
+
+  const walk = (node: TreeNode, prefix: string) => {
+    // Directories first, then files, each alphabetically
+    const entries = [...node.children.entries()].sort(([a, x], [b, y]) =>
+      Number(Boolean(x.file)) - Number(Boolean(y.file)) || a.localeCompare(b)
+    );
+
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1;
+      const branch = last ? "└── " : "├── ";
+
+      if (child.file) {
+        const size = pc.dim(`(${formatBytes(child.file.bytes)})`);
+        const note = child.file.overwrites ? ` ${pc.yellow("overwrites existing")}` : "";
+        lines.push(`${prefix}${branch}${name} ${size}${note}`);
+      } else {
+        lines.push(`${prefix}${branch}${name}/`);
+        walk(child, `${prefix}${last ? "    " : "│   "}`);
+      }
+    });
+  };
+
+  walk(root, "");
+  return lines.join("\n");
+}
+
+export function printDryRun(report: DryRunReport) {
+  console.log(pc.cyan(`\nDry run: nothing will be written to ${pc.bold(report.targetDir)}\n`));
+  console.log(formatTree(report));
+
+  const overwrites = report.files.filter((file) => file.overwrites).length;
+  console.log(
+    `\n${report.files.length} files, ${formatBytes(report.totalBytes)}${
+      overwrites ? pc.yellow(`, ${overwrites} would overwrite existing files`) : ""
+    }`
+  );
+
+  if (report.targetConflict) {
+    console.log(
+      pc.yellow(
+        `⚠ ${report.targetConflict}. Scaffolding into it asks first, or fails without a TTY; --force skips the check.`
+      )
+    );
+  }
+  if (report.install) {
+    console.log(pc.dim(`Would run ${report.install} (skipped in dry run)`));
+  }
+  if (report.verify) {
+    console.log(pc.dim("Would lint and smoke-boot the project (skipped in dry run)"));
+  }
+  if (report.git) {
+    console.log(pc.dim("Would initialise a git repository (skipped in dry run)"));
+  }
+
+  for (const file of report.files) {
+    if (file.contents === undefined) continue;
+    console.log(`\n${pc.cyan(`── ${file.path} `.padEnd(72, "─"))}\n`);
+    console.log(file.contents);
+  }
+
+  console.log("");
+}
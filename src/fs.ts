@@ -0,0 +1,165 @@
+import fs from "fs-extra";
+import path from "path";
+
+/**
+ * The filesystem access project generation needs. The default uses the real
+ * disk; the in-memory one backs `--dry-run` and lets the programmatic API
+ * be driven without touching disk.
+ */
+export type FileSystem = {
+  /** Write a file, creating parent directories as needed */
+  writeFile(file: string, contents: Buffer): Promise<void>;
+  readFile(file: string): Promise<Buffer>;
+  exists(file: string): Promise<boolean>;
+  /** Undefined when nothing exists at `file` */
+  stat(file: string): Promise<{ isDirectory: boolean } | undefined>;
+  readdir(dir: string): Promise<string[]>;
+  /** Create a directory and any missing parents */
+  mkdir(dir: string): Promise<void>;
+  /** Create a uniquely named directory starting with `prefix` */
+  mkdtemp(prefix: string): Promise<string>;
+  /** Move a file or directory, creating the destination's parents */
+  move(from: string, to: string): Promise<void>;
+  /** Remove a file or directory tree; a missing path is not an error */
+  remove(file: string): Promise<void>;
+};
+
+export const nodeFileSystem: FileSystem = {
+  writeFile: (file, contents) => fs.outputFile(file, contents),
+  readFile: (file) => fs.readFile(file),
+  exists: (file) => fs.pathExists(file),
+  stat: (file) =>
+    fs.stat(file).then(
+      (stat) => ({ isDirectory: stat.isDirectory() }),
+      () => undefined
+    ),
+  readdir: (dir) => fs.readdir(dir),
+  mkdir: (dir) => fs.ensureDir(dir),
+  mkdtemp: (prefix) => fs.mkdtemp(prefix),
+  move: (from, to) => fs.move(from, to),
+  remove: (file) => fs.remove(file),
+};
+
+export type MemoryFileSystem = FileSystem & {
+  /** Files keyed by absolute path */
+  files: Map<string, Buffer>;
+  /** Directories created explicitly, keyed by absolute path */
+  dirs: Set<string>;
+};
+
+function enoent(file: string, syscall: string) {
+  return Object.assign(
+    new Error(`ENOENT: no such file or directory, ${syscall} '${file}'`),
+    { code: "ENOENT" }
+  );
+}
+
+/**
+ * A filesystem held in memory. `initial` seeds it with files, keyed by path
+ * relative to the working directory or absolute.
+ */
+export function createMemoryFileSystem(
+  initial: Record<string, string | Buffer> = {}
+): MemoryFileSystem {
+  const files = new Map<string, Buffer>();
+  const dirs = new Set<string>();
+  let tempCounter = 0;
+
+  for (const [file, contents] of Object.entries(initial)) {
+    files.set(path.resolve(file), Buffer.from(contents));
+  }
+
+  const under = (dir: string) => {
+    const prefix = dir.endsWith(path.sep) ? dir : `${dir}${path.sep}`;
+    return (key: string) => key.startsWith(prefix);
+  };
+
+  const isDirectory = (dir: string) =>
+    dir === path.parse(dir).root ||
+    dirs.has(dir) ||
+    [...files.keys(), ...dirs].some(under(dir));
+
+  const ensureParents = (file: string) => {
+    let dir = path.dirname(file);
+    while (!isDirectory(dir)) {
+      dirs.add(dir);
+      dir = path.dirname(dir);
+    }
+  };
+
+  return {
+    files,
+    dirs,
+    async writeFile(file, contents) {
+      const resolved = path.resolve(file);
+      ensureParents(resolved);
+      files.set(resolved, Buffer.from(contents));
+    },
+    async readFile(file) {
+      const contents = files.get(path.resolve(file));
+      if (!contents) throw enoent(file, "open");
+      return contents;
+    },
+    async exists(file) {
+      const resolved = path.resolve(file);
+      return files.has(resolved) || isDirectory(resolved);
+    },
+    async stat(file) {
+      const resolved = path.resolve(file);
+      if (files.has(resolved)) return { isDirectory: false };
+      return isDirectory(resolved) ? { isDirectory: true } : undefined;
+    },
+    async readdir(dir) {
+      const resolved = path.resolve(dir);
+      if (!isDirectory(resolved)) throw enoent(dir, "scandir");
+      const entries = new Set<string>();
+      for (const key of [...files.keys(), ...dirs].filter(under(resolved))) {
+        entries.add(path.relative(resolved, key).split(path.sep)[0]);
+      }
+      return [...entries].sort();
+    },
+    async mkdir(dir) {
+      const resolved = path.resolve(dir);
+      ensureParents(resolved);
+      dirs.add(resolved);
+    },
+    async mkdtemp(prefix) {
+      const suffix = (++tempCounter).toString(36).padStart(6, "0");
+      const dir = path.resolve(`${prefix}${suffix}`);
+      ensureParents(dir);
+      dirs.add(dir);
+      return dir;
+    },
+    async move(from, to) {
+      const source = path.resolve(from);
+      const dest = path.resolve(to);
+      if (!files.has(source) && !isDirectory(source)) throw enoent(from, "rename");
+
+      ensureParents(dest);
+      const inSource = under(source);
+      const relocate = (key: string) => path.join(dest, path.relative(source, key));
+
+      for (const [key, contents] of [...files]) {
+        if (key === source || inSource(key)) {
+          files.delete(key);
+          files.set(key === source ? dest : relocate(key), contents);
+        }
+      }
+      for (const key of [...dirs]) {
+        if (key === source || inSource(key)) {
+          dirs.delete(key);
+          dirs.add(key === source ? dest : relocate(key));
+        }
+      }
+    },
+    async remove(file) {
+      const resolved = path.resolve(file);
+      const inside = under(resolved);
+      files.delete(resolved);
+      dirs.delete(resolved);
+      for (const key of [...files.keys()]) if (inside(key)) files.delete(key);
+      for (const key of [...dirs]) if (inside(key)) dirs.delete(key);
+    },
+  };
+}
+
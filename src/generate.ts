@@ -0,0 +1,225 @@
+import path from "path";
+
+import { dockerSteps } from "./deploy";
+import { nodeFileSystem, type FileSystem } from "./fs";
+import { MANIFEST_FILE, createManifest } from "./manifest";
+import { PACKAGE_MANAGERS } from "./package-managers";
+import { ROUTE_LABELS, ROUTE_PRESETS } from "./route-presets";
+import {
+  BUILTIN_TEMPLATE_DIR,
+  TemplateError,
+  renderTemplateDir,
+  resolveTemplateSource,
+  type TemplateContext,
+  type TemplateFile,
+} from "./templates";
+import { STYLING_STRATEGIES, demoClassNames } from "./styling";
+import type { ProjectConfig, RoutePreset, Styling } from "./types";
+import { TAUJS_RELEASES } from "./versions";
+
+/**
+ * Where each app lives and what it serves. A single app keeps the flat
+ * src/client layout; several apps each get their own directory, and every
+ * app after the first is mounted under /<appId> so routes never collide.
+ */
+export function appLayouts(appIds: string[], routePreset: RoutePreset) {
+  const multiApp = appIds.length > 1;
+
+  return appIds.map((appId, index) => {
+    const entryPoint = multiApp ? appId : "";
+    const basePath = index === 0 ? "" : `/${appId}`;
+    const routes = ROUTE_PRESETS[routePreset].routes
+      // Only the first app's HTML shell is served for unmatched paths
+      .filter((route) => route.kind !== "client" || index === 0)
+      .map(({ kind, path: routePath, page, title }) => ({
+        kind,
+        path: `${basePath}${routePath}` || "/",
+        label: ROUTE_LABELS[kind],
+        page,
+        title,
+      }));
+
+    return {
+      appId,
+      entryPoint,
+      clientDir: entryPoint ? `src/client/${entryPoint}` : "src/client",
+      homePath: basePath || "/",
+      routes,
+      // The path of each page component this app has, e.g. `app.pages.StreamingPage`
+      pages: Object.fromEntries(routes.map((route) => [route.page, route.path])),
+    };
+  });
+}
+
+export function createTemplateContext(
+  config: ProjectConfig,
+  cwd = process.cwd()
+): TemplateContext {
+  const { packageName, packageManager, installDeps, styling, routePreset, deploy } = config;
+  const multiApp = config.apps.length > 1;
+  const apps = appLayouts(config.apps, routePreset);
+  // The Node line the release's @types/node describes
+  const [nodeVersion] =
+    TAUJS_RELEASES[config.taujsVersion].devDependencies["@types/node"].split(".");
+
+  return {
+    packageName,
+    // packageName was called projectName before the target directory and
+    // package name were separated; custom templates may still use the old name
+    projectName: packageName,
+    dirName: path.basename(path.resolve(cwd, config.targetDir)),
+    packageManager,
+    installDeps,
+    apps,
+    multiApp,
+    routePreset,
+    styling,
+    className: demoClassNames(styling),
+    deploy,
+    docker: {
+      ...dockerSteps(packageManager, config.packageManagerVersion, nodeVersion),
+      // Image names cannot contain a scope's "@" or "/"
+      imageName: packageName.replace(/^@[^/]+\//, ""),
+    },
+    pmInstall: PACKAGE_MANAGERS[packageManager].install,
+    pmRun: PACKAGE_MANAGERS[packageManager].run,
+    pmExec: PACKAGE_MANAGERS[packageManager].exec,
+  };
+}
+
+type JsonObject = { [key: string]: unknown };
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeJson(base: JsonObject, override: JsonObject): JsonObject {
+  const merged: JsonObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] =
+      isJsonObject(value) && isJsonObject(base[key])
+        ? mergeJson(base[key] as JsonObject, value)
+        : value;
+  }
+  return merged;
+}
+
+function toJsonFile(filePath: string, value: unknown): TemplateFile {
+  return {
+    path: filePath,
+    contents: Buffer.from(`${JSON.stringify(value, null, 2)}\n`),
+  };
+}
+
+/**
+ * Render the full set of project files in memory, sorted by path.
+ *
+ * The built-in template is rendered first. A custom `--template` is rendered
+ * on top of it: its files replace built-in files at the same path, and a file
+ * that renders to nothing removes the built-in one. `package.json` is the
+ * exception: it is generated here so dependency pins stay in one place, and
+ * a template's `package.json` is deep-merged over it rather than replacing it.
+ *
+ * The project manifest, with a hash of every other file, is added last.
+ * `upgrade` passes `templateDir` to render an earlier release's templates.
+ */
+export async function renderProjectFiles(
+  config: ProjectConfig,
+  cwd = process.cwd(),
+  templateDir = BUILTIN_TEMPLATE_DIR
+): Promise<TemplateFile[]> {
+  const context = createTemplateContext(config, cwd);
+  const files = new Map<string, TemplateFile>();
+
+  for (const file of await renderTemplateDir(templateDir, context)) {
+    files.set(file.path, file);
+  }
+
+  let packageJson: JsonObject = generatePackageJson(config.packageName, config.taujsVersion, {
+    packageManager:
+      config.packageManagerVersion &&
+      `${config.packageManager}@${config.packageManagerVersion}`,
+    styling: config.styling,
+  });
+
+  if (config.template) {
+    const { dir, cleanup } = await resolveTemplateSource(config.template, cwd);
+
+    try {
+      for (const file of await renderTemplateDir(dir, context)) {
+        if (file.path === "package.json") {
+          let parsed: unknown;
+          try {
+            parsed = JSON.parse(file.contents.toString("utf8"));
+          } catch (error) {
+            throw new TemplateError(
+              `Invalid JSON: ${(error as Error).message}`,
+              "package.json"
+            );
+          }
+          if (!isJsonObject(parsed)) {
+            throw new TemplateError("Expected a JSON object", "package.json");
+          }
+          packageJson = mergeJson(packageJson, parsed);
+        } else {
+          files.set(file.path, file);
+        }
+      }
+    } finally {
+      await cleanup();
+    }
+  }
+
+  files.set("package.json", toJsonFile("package.json", packageJson));
+
+  const rendered = [...files.values()].filter((file) => file.contents.length > 0);
+  rendered.push(toJsonFile(MANIFEST_FILE, createManifest(config, rendered, cwd)));
+
+  return rendered.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export async function writeProjectFiles(
+  targetDir: string,
+  files: TemplateFile[],
+  fileSystem: FileSystem = nodeFileSystem
+) {
+  for (const file of files) {
+    await fileSystem.writeFile(path.join(targetDir, file.path), file.contents);
+  }
+}
+
+export function generatePackageJson(
+  packageName: string,
+  taujsVersion: string,
+  {
+    packageManager,
+    styling = "css",
+  }: { packageManager?: string; styling?: Styling } = {}
+) {
+  const { dependencies, devDependencies, extras } = TAUJS_RELEASES[taujsVersion];
+  const stylingDeps = STYLING_STRATEGIES[styling].dependencies;
+
+  return {
+    name: packageName,
+    version: "0.1.0",
+    private: true,
+    type: "module",
+    ...(packageManager ? { packageManager } : {}),
+    scripts: {
+      dev: "cross-env NODE_ENV=development tsx watch --ignore vite.config.ts --trace-warnings --tsconfig ./src/server/tsconfig.json ./src/server/index.ts --loglevel verbose",
+      "build:client": "tsx build.ts --client",
+      "build:entry-server": "tsx build.ts --ssr",
+      "build:server": "tsx build.ts --server",
+      build: "tsx build.ts",
+      start: "cross-env NODE_ENV=production node dist/server/index.js",
+      lint: "tsc --noEmit",
+    },
+    dependencies: Object.fromEntries(
+      [
+        ...Object.entries(dependencies),
+        ...stylingDeps.map((name) => [name, extras[name]]),
+      ].sort(([a], [b]) => a.localeCompare(b))
+    ),
+    devDependencies: { ...devDependencies },
+  };
+}
@@ -0,0 +1,94 @@
+import path from "path";
+
+import { nodeCommandRunner, type CommandRunner } from "./commands";
+import { nodeFileSystem, type FileSystem } from "./fs";
+
+export type GitResult =
+  | { status: "committed"; branch: string }
+  /** Repository created and files staged, but nothing committed */
+  | { status: "initialized"; reason: string }
+  | { status: "skipped"; reason: string };
+
+/**
+ * Turn a freshly generated project into a repository with one commit.
+ *
+ * Never touches a repository that already exists: a target inside another
+ * work tree (a monorepo, or `.` in a fresh clone) is left for the user to
+ * commit. Failures are reported rather than thrown; the project itself is
+ * complete by the time this runs.
+ */
+export async function initGitRepository(
+  dir: string,
+  {
+    runCommand = nodeCommandRunner,
+    fileSystem = nodeFileSystem,
+  }: { runCommand?: CommandRunner; fileSystem?: FileSystem } = {}
+): Promise<GitResult> {
+  const git = (...args: string[]) => runCommand("git", args, { cwd: dir });
+
+  /** `git config --get`, or undefined when the key is unset */
+  const gitConfig = (key: string) =>
+    git("config", "--get", key).then(
+      (value) => value || undefined,
+      () => undefined
+    );
+
+  const hasIdentity = async () => {
+    const name =
+      process.env.GIT_AUTHOR_NAME ??
+      process.env.GIT_COMMITTER_NAME ??
+      (await gitConfig("user.name"));
+    const email =
+      process.env.GIT_AUTHOR_EMAIL ??
+      process.env.GIT_COMMITTER_EMAIL ??
+      process.env.EMAIL ??
+      (await gitConfig("user.email"));
+    return Boolean(name && email);
+  };
+
+  try {
+    await git("--version");
+  } catch {
+    return { status: "skipped", reason: "git was not found on PATH" };
+  }
+
+  const workTree = await git("rev-parse", "--show-toplevel").catch(() => "");
+  if (workTree) {
+    return {
+      status: "skipped",
+      reason: `${dir} is already inside the git work tree at ${workTree}`,
+    };
+  }
+
+  try {
+    await git("init", "--quiet");
+  } catch (error) {
+    return { status: "skipped", reason: `git init failed: ${(error as Error).message}` };
+  }
+
+  try {
+    // init.defaultBranch is only honoured by `git init` from git 2.28
+    const defaultBranch = await gitConfig("init.defaultBranch");
+    if (defaultBranch) {
+      await git("symbolic-ref", "HEAD", `refs/heads/${defaultBranch}`);
+    }
+
+    await git("add", "--all");
+
+    if (!(await hasIdentity())) {
+      return {
+        status: "initialized",
+        reason:
+          "no git identity is configured (set user.name and user.email, then commit)",
+      };
+    }
+
+    await git("commit", "--quiet", "-m", "Initial commit from create-taujs");
+    const branch = await git("rev-parse", "--abbrev-ref", "HEAD");
+    return { status: "committed", branch };
+  } catch (error) {
+    // A half-made repository is more confusing than none
+    await fileSystem.remove(path.join(dir, ".git"));
+    return { status: "skipped", reason: `git failed: ${(error as Error).message}` };
+  }
+}
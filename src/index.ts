@@ -1,975 +1,697 @@
 #!/usr/bin/env node
 
-import { execSync } from "child_process";
-import fs from "fs-extra";
 import path from "path";
 import pc from "picocolors";
 import prompts from "prompts";
 
-type ProjectConfig = {
-  projectName: string;
-  packageManager: "npm" | "pnpm" | "yarn";
-  installDeps: boolean;
-};
-
-const PACKAGE_MANAGERS = {
-  npm: "npm install",
-  pnpm: "pnpm install",
-  yarn: "yarn install",
-} as const;
-
-function parseArgs(): { projectName?: string } {
-  const rawArgs = process.argv.slice(2);
-  let projectName: string | undefined;
-
-  for (const arg of rawArgs) {
-    if (!arg.startsWith("-") && !projectName) {
-      projectName = arg;
-      continue;
-    }
+import { version } from "../package.json";
+import { AddError, addRoute, addService, type AddResult } from "./add";
+import {
+  CliArgsError,
+  formatAddHelp,
+  formatHelp,
+  formatUpgradeHelp,
+  parseAddArgs,
+  parseArgs,
+  parseUpgradeArgs,
+  type AddArgs,
+  type CliArgs,
+  type UpgradeArgs,
+} from "./args";
+import { resolveConflicts } from "./conflicts";
+import {
+  ScaffoldCancelledError,
+  ScaffoldStepError,
+  TargetDirectoryError,
+  createProject,
+  type CreateProjectResult,
+  type InstallRetry,
+} from "./create";
+import { DEPLOY_NAMES, DEPLOY_TARGETS } from "./deploy";
+import { dryRun, printDryRun } from "./dry-run";
+import { installCommand, networkModes, type InstallResult } from "./install";
+import {
+  resolveProjectTarget,
+  validateAppIds,
+  validatePackageName,
+} from "./names";
+import {
+  PACKAGE_MANAGER_NAMES,
+  detectPackageManager,
+  resolvePackageManagerVersion,
+} from "./package-managers";
+import { PresetError, loadDefaults, loadPreset, savePreset, type Preset } from "./presets";
+import { ROUTE_PRESETS, ROUTE_PRESET_NAMES } from "./route-presets";
+import { createSpinner, type Spinner } from "./spinner";
+import { STYLING_NAMES, STYLING_STRATEGIES } from "./styling";
+import { TemplateError } from "./templates";
+import type { PackageManager, ProjectConfig } from "./types";
+import { UpgradeError, upgradeProject, type UpgradeResult } from "./upgrade";
+import type { VerifyReport } from "./verify";
+import { VersionError, resolveTaujsVersion } from "./versions";
+
+const DEFAULT_PROJECT_NAME = "my-taujs-app";
+const DEFAULT_APPS = "main";
+
+/** Index of `value` among `names` for a select prompt, or the first entry */
+function initialIndex(names: readonly string[], value: string | undefined) {
+  return Math.max(0, value === undefined ? 0 : names.indexOf(value));
+}
+
+function splitAppIds(value: string): string[] {
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+async function runAdd(rawArgs: string[]) {
+  let args: AddArgs;
+  try {
+    args = parseAddArgs(rawArgs);
+  } catch (error) {
+    if (!(error instanceof CliArgsError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}`));
+    console.log(pc.dim("Run create-taujs add --help for usage.\n"));
+    process.exit(1);
   }
 
-  return { projectName };
-}
-
-function validateProjectName(value: string): true | string {
-  if (!value) return "Project name is required";
-  if (!/^[a-z0-9-_]+$/.test(value)) {
-    return "Project name can only contain lowercase letters, numbers, hyphens, and underscores";
+  if (args.help) {
+    console.log(formatAddHelp(version));
+    return;
   }
-  return true;
-}
-
-async function main() {
-  console.log(pc.cyan("\nWelcome to τjs (taujs)\n"));
 
-  const { projectName: argName } = parseArgs();
-
-  if (argName) {
-    const res = validateProjectName(argName);
-    if (res !== true) {
-      console.log(pc.red(`\n✖ Invalid project name "${argName}": ${res}`));
-      process.exit(1);
+  const projectDir = process.cwd();
+  let result: AddResult;
+
+  try {
+    if (args.kind === "service") {
+      result = await addService(projectDir, args.target!);
+    } else {
+      const route = await addRoute(projectDir, {
+        path: args.target!,
+        render: args.render,
+        app: args.app,
+        service: args.service,
+      });
+      console.log(pc.cyan(`\nAdding route ${pc.bold(args.target!)} to app ${pc.bold(route.appId)}`));
+      result = route;
     }
+  } catch (error) {
+    if (!(error instanceof AddError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}\n`));
+    process.exit(1);
   }
 
-  const questions: prompts.PromptObject[] = [
-    {
-      type: argName ? null : "text",
-      name: "projectName",
-      message: "Project name:",
-      initial: "my-taujs-app",
-      validate: validateProjectName,
-    },
-    {
-      type: "select",
-      name: "packageManager",
-      message: "Package manager:",
-      choices: [
-        { title: "npm", value: "npm" },
-        { title: "pnpm", value: "pnpm" },
-        { title: "yarn", value: "yarn" },
-      ],
-      initial: 0,
-    },
-    {
-      type: "confirm",
-      name: "installDeps",
-      message: "Install dependencies now?",
-      initial: true,
-    },
-  ];
-
-  const answers = await prompts(questions, {
-    onCancel: () => {
-      console.log(pc.red("\n✖ Operation cancelled"));
-      process.exit(1);
-    },
-  });
-
-  const projectName = argName ?? answers.projectName;
+  console.log("");
+  for (const file of result.created) console.log(pc.green(`  created  ${file}`));
+  for (const file of result.updated) console.log(pc.green(`  updated  ${file}`));
+  console.log("");
 
-  const nameRes = validateProjectName(projectName);
-  if (nameRes !== true) {
+  if (args.kind === "route") {
     console.log(
-      pc.red(`\n✖ Invalid project name "${projectName}": ${nameRes}`)
+      pc.dim(
+        `Map ${args.target} to a page in the app's pages/index.ts; until then it renders NotFoundPage.\n`
+      )
     );
-    process.exit(1);
   }
-
-  if (!projectName) {
-    console.log(pc.red("\n✖ Project name is required"));
-    process.exit(1);
-  }
-
-  const config: ProjectConfig = {
-    projectName,
-    packageManager: answers.packageManager,
-    installDeps: answers.installDeps,
-  };
-
-  await createProject(config);
 }
 
-async function createProject(config: ProjectConfig) {
-  const { projectName, packageManager, installDeps } = config;
-  const targetDir = path.resolve(process.cwd(), projectName);
+const UPGRADE_LABELS = {
+  updated: pc.green("updated "),
+  merged: pc.green("merged  "),
+  added: pc.green("added   "),
+  removed: pc.green("removed "),
+  conflict: pc.red("conflict"),
+  kept: pc.yellow("kept    "),
+};
 
-  if (fs.existsSync(targetDir)) {
-    console.log(pc.red(`\n✖ Directory ${projectName} already exists`));
+async function runUpgrade(rawArgs: string[]) {
+  let args: UpgradeArgs;
+  try {
+    args = parseUpgradeArgs(rawArgs);
+  } catch (error) {
+    if (!(error instanceof CliArgsError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}`));
+    console.log(pc.dim("Run create-taujs upgrade --help for usage.\n"));
     process.exit(1);
   }
 
-  console.log(pc.cyan(`\nCreating project in ${pc.bold(targetDir)}...\n`));
-
-  await fs.ensureDir(targetDir);
-  await createDirectoryStructure(targetDir);
-  await generateFiles(targetDir, config);
+  if (args.help) {
+    console.log(formatUpgradeHelp(version));
+    return;
+  }
 
-  console.log(pc.green("Project files created"));
+  let result: UpgradeResult;
+  try {
+    result = await upgradeProject({ projectDir: process.cwd(), dryRun: args.dryRun });
+  } catch (error) {
+    if (!(error instanceof UpgradeError || error instanceof TemplateError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}\n`));
+    process.exit(1);
+  }
 
-  let depsInstalled = false;
+  const { from, to, taujsVersion } = result;
+  console.log(
+    pc.cyan(
+      `\n${args.dryRun ? "Would upgrade" : "Upgrading"} from create-taujs v${from} to v${to}`
+    )
+  );
+  if (taujsVersion.from !== taujsVersion.to) {
+    console.log(pc.dim(`@taujs/server ${taujsVersion.from} → ${taujsVersion.to}`));
+  }
 
-  if (installDeps) {
-    console.log(
-      pc.cyan(`\nInstalling dependencies with ${packageManager}...\n`)
-    );
-    try {
-      execSync(PACKAGE_MANAGERS[packageManager], {
-        cwd: targetDir,
-        stdio: "inherit",
-      });
-      depsInstalled = true;
-      console.log(pc.green("\nDependencies installed"));
-    } catch (error) {
-      console.log(
-        pc.yellow(
-          "\n⚠ Failed to install dependencies. You can install them manually."
-        )
-      );
-    }
+  console.log("");
+  if (result.files.length === 0) console.log(pc.green("  Already up to date"));
+  for (const file of result.files) {
+    const reason = file.reason ? pc.dim(` (${file.reason})`) : "";
+    console.log(`  ${UPGRADE_LABELS[file.action]}  ${file.path}${reason}`);
   }
+  console.log("");
 
-  if (installDeps && !depsInstalled) {
+  if (result.conflicts.length > 0) {
     console.log(
       pc.yellow(
-        "⚠ Dependency install failed. Run the install command before starting the dev server.\n"
+        args.dryRun
+          ? `${result.conflicts.length} file(s) would be left with conflict markers.\n`
+          : `Resolve the conflict markers in ${result.conflicts.length} file(s), then reinstall and run lint.\n`
       )
     );
+    process.exit(1);
   }
-  console.log(
-    pc.green(`\n✓ Project ${pc.bold(projectName)} created successfully!\n`)
-  );
-  console.log(pc.cyan("Next steps:\n"));
-  console.log(`  cd ${projectName}`);
-
-  if (!depsInstalled)
-    console.log(
-      `  ${PACKAGE_MANAGERS[packageManager]}${
-        installDeps ? "  # (install failed earlier)" : ""
-      }`
-    );
 
-  const pmRun = packageManager === "npm" ? "npm run" : packageManager;
-  console.log(`  ${pmRun} dev\n`);
-  console.log(pc.dim("Documentation: https://taujs.dev\n"));
+  if (!args.dryRun && result.files.length > 0) {
+    console.log(pc.dim("Review the changes, then reinstall dependencies and run lint.\n"));
+  }
 }
 
-async function createDirectoryStructure(targetDir: string) {
-  const dirs: string[] = [
-    "src/server/services",
-    "src/client",
-    "src/client/public",
-  ];
+async function main() {
+  const rawArgs = process.argv.slice(2);
 
-  for (const dir of dirs) {
-    await fs.ensureDir(path.join(targetDir, dir));
+  if (rawArgs[0] === "add") {
+    await runAdd(rawArgs.slice(1));
+    return;
   }
-}
 
-async function generateFiles(targetDir: string, config: ProjectConfig) {
-  const { projectName, packageManager } = config;
-
-  await fs.writeJSON(
-    path.join(targetDir, "package.json"),
-    generatePackageJson(projectName),
-    { spaces: 2 }
-  );
+  if (rawArgs[0] === "upgrade") {
+    await runUpgrade(rawArgs.slice(1));
+    return;
+  }
 
-  await fs.writeFile(path.join(targetDir, "build.ts"), generateBuildTs());
+  let args: CliArgs;
+  try {
+    args = parseArgs(rawArgs);
+  } catch (error) {
+    if (!(error instanceof CliArgsError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}`));
+    console.log(pc.dim("Run create-taujs --help for usage.\n"));
+    process.exit(1);
+  }
 
-  await fs.writeJSON(
-    path.join(targetDir, "tsconfig.json"),
-    generateTsConfig(),
-    { spaces: 2 }
-  );
+  if (args.help) {
+    console.log(formatHelp(version));
+    return;
+  }
 
-  await fs.writeJSON(
-    path.join(targetDir, "src/server/tsconfig.json"),
-    generateServerTsConfig(),
-    { spaces: 2 }
-  );
+  if (args.version) {
+    console.log(version);
+    return;
+  }
 
-  await fs.writeFile(
-    path.join(targetDir, "taujs.config.ts"),
-    generateTaujsConfig()
-  );
+  // --json output must be the only thing on stdout
+  const quiet = args.json;
 
-  await fs.writeFile(path.join(targetDir, ".gitignore"), generateGitignore());
+  if (!quiet) console.log(pc.cyan("\nWelcome to τjs (taujs)\n"));
 
-  await fs.writeFile(
-    path.join(targetDir, "README.md"),
-    generateReadme(projectName, packageManager)
-  );
+  if (args.target !== undefined && !args.target.trim()) {
+    console.log(pc.red("\n✖ Project directory cannot be empty"));
+    process.exit(1);
+  }
 
-  await fs.writeFile(
-    path.join(targetDir, "src/client/index.html"),
-    generateIndexHtml()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/client/App.tsx"),
-    generateAppComponent()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/client/entry-client.tsx"),
-    generateEntryClient()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/client/entry-server.tsx"),
-    generateEntryServer()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/client/styles.css"),
-    generateStyles()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/client/vite-env.d.ts"),
-    generateViteEnv()
-  );
+  if (args.packageName !== undefined) {
+    const res = validatePackageName(args.packageName);
+    if (res !== true) {
+      console.log(pc.red(`\n✖ Invalid --package-name "${args.packageName}": ${res}`));
+      process.exit(1);
+    }
+  }
 
-  // server
-  await fs.writeFile(
-    path.join(targetDir, "src/server/index.ts"),
-    generateServerIndex()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/server/services/registry.ts"),
-    generateServiceRegistry()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/server/services/example.service.ts"),
-    generateExampleService()
-  );
-  await fs.writeFile(
-    path.join(targetDir, "src/server/types.d.ts"),
-    generateServiceTypesAugmentation()
-  );
+  if (args.apps !== undefined) {
+    const res = validateAppIds(splitAppIds(args.apps));
+    if (res !== true) {
+      console.log(pc.red(`\n✖ Invalid --apps "${args.apps}": ${res}`));
+      process.exit(1);
+    }
+  }
 
-  await fs.writeFile(
-    path.join(targetDir, "src/client/public/favicon.svg"),
-    generateFavicon()
-  );
-}
+  let preset: Preset = {};
+  let defaults: Preset = {};
+  try {
+    if (args.preset !== undefined) preset = await loadPreset(args.preset);
+    const loaded = await loadDefaults();
+    defaults = loaded.defaults;
+    if (!quiet) {
+      for (const file of loaded.files) console.log(pc.dim(`Using defaults from ${file}`));
+    }
+  } catch (error) {
+    if (!(error instanceof PresetError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}\n`));
+    process.exit(1);
+  }
 
-function generatePackageJson(projectName: string) {
-  return {
-    name: projectName,
-    version: "0.1.0",
-    private: true,
-    type: "module",
-    scripts: {
-      dev: "cross-env NODE_ENV=development tsx watch --ignore vite.config.ts --trace-warnings --tsconfig ./src/server/tsconfig.json ./src/server/index.ts --loglevel verbose",
-      "build:client": "tsx build.ts",
-      "build:entry-server": "cross-env BUILD_MODE=ssr tsx build.ts",
-      "build:server":
-        "esbuild src/server/index.ts --bundle --platform=node --format=esm --outfile=dist/server/index.js --external:fastify --external:@taujs/server --external:@taujs/react",
-      build:
-        "tsx build.ts && cross-env BUILD_MODE=ssr tsx build.ts && esbuild src/server/index.ts --bundle --platform=node --format=esm --outfile=dist/server/index.js --external:fastify --external:@taujs/server --external:@taujs/react",
-      start: "cross-env NODE_ENV=production node dist/server/index.js",
-      lint: "tsc --noEmit",
-    },
-    dependencies: {
-      "@taujs/react": "latest",
-      "@taujs/server": "latest",
-      fastify: "^5.6.1",
-      react: "^19.0.0",
-      "react-dom": "^19.0.0",
-    },
-    devDependencies: {
-      "@types/node": "^22.10.5",
-      "@types/react": "^19.0.2",
-      "@types/react-dom": "^19.0.2",
-      "@vitejs/plugin-react": "^4.6.0",
-      "cross-env": "^7.0.3",
-      tsx: "^4.19.3",
-      typescript: "^5.7.3",
-      vite: "^7.1.11",
-    },
+  // Flags, then the preset, answer questions outright; defaults only
+  // pre-fill the prompts
+  const given = {
+    packageManager: args.packageManager ?? preset.packageManager,
+    installDeps: args.installDeps ?? preset.installDeps,
+    git: args.git ?? preset.git,
+    apps: args.apps ?? preset.apps?.join(","),
+    routePreset: args.routePreset ?? preset.routePreset,
+    styling: args.styling ?? preset.styling,
+    deploy: args.deploy ?? preset.deploy,
   };
-}
 
-function generateBuildTs() {
-  return `import path from "node:path";
-import { taujsBuild } from "@taujs/server";
-import config from "./taujs.config.ts";
-
-await taujsBuild({
-  clientBaseDir: path.resolve(process.cwd(), "src/client"),
-  config,
-  projectRoot: process.cwd(),
-});
-`;
-}
+  let taujsVersion: string;
+  try {
+    const resolved = resolveTaujsVersion(
+      args.taujsVersion ?? preset.taujsVersion ?? defaults.taujsVersion,
+      version
+    );
+    taujsVersion = resolved.taujsVersion;
+    // stderr, so --json output stays parseable
+    for (const warning of resolved.warnings) {
+      console.error(pc.yellow(`⚠ ${warning}`));
+    }
+  } catch (error) {
+    if (!(error instanceof VersionError)) throw error;
+    console.log(pc.red(`\n✖ ${error.message}`));
+    process.exit(1);
+  }
 
-function generateTsConfig() {
-  return {
-    compilerOptions: {
-      target: "ES2022",
-      module: "ESNext",
-      lib: ["ES2022", "DOM", "DOM.Iterable"],
-      jsx: "react-jsx",
-      moduleResolution: "bundler",
-      resolveJsonModule: true,
-      allowImportingTsExtensions: true,
-      noEmit: true,
-      isolatedModules: true,
-      esModuleInterop: true,
-      forceConsistentCasingInFileNames: true,
-      strict: true,
-      skipLibCheck: true,
-      types: [],
-      paths: {
-        "@client/*": ["./src/client/*"],
-        "@server/*": ["./src/server/*"],
-      },
-    },
-    include: ["src/client/**/*", "src/server/**/*", "taujs.config.ts"],
-  };
-}
+  // Never block on a prompt when nobody can answer it (CI, piped stdin)
+  const interactive = !args.yes && !quiet && Boolean(process.stdin.isTTY);
 
-function generateServerTsConfig() {
-  return {
-    extends: "../../tsconfig.json",
-    include: ["./**/*"],
-  };
-}
+  // `pnpm create taujs`, `bun create taujs` etc. tell us who launched us
+  const detected = detectPackageManager();
 
-function generateTaujsConfig() {
-  return `import { defineConfig } from '@taujs/server/config';
+  const derivedPackageName = (answer?: string) =>
+    resolveProjectTarget(args.target ?? answer ?? DEFAULT_PROJECT_NAME)
+      .packageName;
 
-export default defineConfig({
-  server: {
-    port: 5173,
-    host: 'localhost',
-    hmrPort: 5174,
-  },
-  apps: [
+  const questions: prompts.PromptObject[] = [
     {
-      appId: 'main',
-      entryPoint: '',
-      routes: [
-        {
-          path: '/',
-          attr: {
-            render: 'ssr',
-            hydrate: true,
-            // Direct service invocation: standard SSR
-            data: async (params, ctx) => {
-              return ctx.call('example', 'greet', { name: 'SSR' });
-            },
-          },
-        },
-        {
-          path: '/streaming',
-          attr: {
-            render: 'streaming',
-            hydrate: true,
-            // Descriptor-based data: resolved by the server
-            data: async (params) => ({
-              args: { name: 'Streaming' },
-              serviceName: 'example',
-              serviceMethod: 'greet',
-            }),
-            // meta recommended for streaming routes for SEO/social and render timing
-            meta: {
-              title: "τjs — Streaming",
-              description:
-                "Streaming SSR route (Suspense progressively reveals content).",
-            },
-          },
-        },
-      ],
+      type: args.target === undefined ? "text" : null,
+      name: "target",
+      message: "Project directory (or @scope/name):",
+      initial: DEFAULT_PROJECT_NAME,
+      validate: (value: string) =>
+        value.trim() ? true : "Project directory is required",
     },
-  ],
-});
-`;
-}
-
-function generateGitignore() {
-  return `# Dependencies
-node_modules
-.pnp
-.pnp.js
-
-# Production
-dist
-build
-
-# Environment
-.env
-.env.local
-.env.*.local
-
-# Logs
-logs
-*.log
-npm-debug.log*
-yarn-debug.log*
-yarn-error.log*
-pnpm-debug.log*
-
-# Editor
-.vscode
-.idea
-*.swp
-*.swo
-*~
-
-# OS
-.DS_Store
-Thumbs.db
-
-# Testing
-coverage
-
-# Misc
-.cache
-`;
-}
-
-function generateReadme(projectName: string, packageManager: string) {
-  const pmRun = packageManager === "npm" ? "npm run" : packageManager;
-  return `# ${projectName}
-
-A τjs (taujs) application with server-side rendering, streaming, and a type-safe service layer.
-
-## Getting Started
-
-### Development
-
-\`\`\`bash
-${pmRun} dev
-\`\`\`
-
-Visit [http://localhost:5173](http://localhost:5173)
-
-### Build for Production
-
-\`\`\`bash
-${pmRun} build
-\`\`\`
-
-### Start Production Server
-
-\`\`\`bash
-${pmRun} start
-\`\`\`
-
-## Project Structure
-
-\`\`\`
-${projectName}/
-├── src/
-│   ├── client/              
-│   │   ├── App.tsx             # Root component
-│   │   ├── entry-client.tsx    # Client hydration entry
-│   │   ├── entry-server.tsx    # SSR render entry
-│   │   ├── styles.css          # Global styles
-│   │   ├── vite-env.d.ts       # Vite client types
-│   │   └── public/
-│   │       └── favicon.svg     # App icon
-│   └── server/              
-│       ├── index.ts                # Server entry point
-│       ├── tsconfig.json          # Server-only TS config (used by tsx watch)
-│       ├── types.d.ts          # ServiceContext augmentation
-│       └── services/
-│           ├── registry.ts         # Service registry
-│           └── example.service.ts  # Example service
-├── build.ts                     # Production build entry point
-├── taujs.config.ts              # τjs configuration
-└── package.json
-\`\`\`
-
-## Editing the App
-
-- Main UI: \`src/client/App.tsx\`
-- Styles: \`src/client/styles.css\`
-- SSR entry: \`src/client/entry-server.tsx\`
-- Client entry: \`src/client/entry-client.tsx\`
-- Routes: \`taujs.config.ts\`
-- Services: \`src/server/services/\`
-
-## Documentation
-
-- [τjs Documentation](https://taujs.dev)
-- [Fastify Documentation](https://fastify.dev)
-- [React Documentation](https://react.dev)
-
-## License
-
-MIT
-`;
-}
-
-function generateIndexHtml() {
-  return `<!DOCTYPE html>
-<html lang="en">
-  <head>
-    <meta charset="UTF-8" />
-    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-    <!--ssr-head-->
-  </head>
-  <body>
-    <main id="root"><!--ssr-html--></main>
-  </body>
-</html>
-`;
-}
-
-function generateAppComponent() {
-  return `import { Suspense } from 'react';
-import { useSSRStore } from '@taujs/react';
-
-import "./styles.css";
-
-type GreetingData = {
-  message: string;
-  timestamp: string;
-};
-
-function GreetingCard() {
-  const data = useSSRStore<GreetingData>();
+    {
+      // Only asked when the name derived from the directory is not usable
+      type: (_, values) =>
+        args.packageName === undefined &&
+        validatePackageName(derivedPackageName(values.target)) !== true
+          ? "text"
+          : null,
+      name: "packageName",
+      message: "Package name:",
+      initial: (_, values) => derivedPackageName(values.target),
+      validate: validatePackageName,
+    },
+    {
+      type: given.packageManager ? null : "select",
+      name: "packageManager",
+      message: "Package manager:",
+      choices: PACKAGE_MANAGER_NAMES.map((pm) => ({
+        title: pm === detected?.name ? `${pm} ${pc.dim("(detected)")}` : pm,
+        value: pm,
+      })),
+      initial: initialIndex(PACKAGE_MANAGER_NAMES, defaults.packageManager ?? detected?.name),
+    },
+    {
+      type: given.apps === undefined ? "text" : null,
+      name: "apps",
+      message: "App IDs (comma-separated, one per micro-frontend):",
+      initial: defaults.apps?.join(",") ?? DEFAULT_APPS,
+      validate: (value: string) => validateAppIds(splitAppIds(value)),
+    },
+    {
+      type: given.routePreset ? null : "select",
+      name: "routePreset",
+      message: "Routes:",
+      choices: ROUTE_PRESET_NAMES.map((name) => ({
+        title: ROUTE_PRESETS[name].label,
+        description: ROUTE_PRESETS[name].hint,
+        value: name,
+      })),
+      initial: initialIndex(ROUTE_PRESET_NAMES, defaults.routePreset),
+    },
+    {
+      type: given.styling ? null : "select",
+      name: "styling",
+      message: "Styling:",
+      choices: STYLING_NAMES.map((name) => ({
+        title: STYLING_STRATEGIES[name].label,
+        description: STYLING_STRATEGIES[name].hint,
+        value: name,
+      })),
+      initial: initialIndex(STYLING_NAMES, defaults.styling),
+    },
+    {
+      type: given.deploy ? null : "select",
+      name: "deploy",
+      message: "Deployment:",
+      choices: DEPLOY_NAMES.map((name) => ({
+        title: DEPLOY_TARGETS[name].label,
+        description: DEPLOY_TARGETS[name].hint,
+        value: name,
+      })),
+      initial: initialIndex(DEPLOY_NAMES, defaults.deploy),
+    },
+    {
+      type: given.installDeps === undefined ? "confirm" : null,
+      name: "installDeps",
+      message: "Install dependencies now?",
+      initial: defaults.installDeps ?? true,
+    },
+    {
+      type: given.git === undefined ? "confirm" : null,
+      name: "git",
+      message: "Initialise a git repository?",
+      initial: defaults.git ?? true,
+    },
+  ];
 
-  return (
-    <section className="card card--primary">
-      <p className="card-message">{data.message}</p>
-      <p className="card-meta">
-        Generated at: {new Date(data.timestamp).toLocaleString()}
-      </p>
-    </section>
-  );
-}
+  const answers = interactive
+    ? await prompts(questions, {
+        onCancel: () => {
+          console.log(pc.red("\n✖ Operation cancelled"));
+          process.exit(1);
+        },
+      })
+    : {};
 
-export function App() {
-  return (
-    <div className="app">
-      <header className="app-header">
-        <h1 className="app-title">τjs - Composing systems, not just apps</h1>
-        <p className="app-subtitle">
-          Request-first application composition with explicit per-route rendering control.
-        </p>
-      </header>
-
-      <Suspense
-        fallback={
-          <section className="card card--primary">
-            <p className="card-message">Loading greeting…</p>
-            <p className="card-meta">Streaming data from the server.</p>
-          </section>
-        }
-      >
-        <GreetingCard />
-      </Suspense>
-
-      <section className="section">
-        <h2 className="section-title">Quick start</h2>
-        <ul className="list">
-          <li>Edit <code>src/client/App.tsx</code> to change this page.</li>
-          <li>Adjust styles in <code>src/client/styles.css</code>.</li>
-          <li>Configure routes in <code>taujs.config.ts</code>.</li>
-          <li>
-            Visit <a href="/">/</a> for standard SSR and{" "}
-            <a href="/streaming">/streaming</a> for streaming SSR.
-          </li>
-          <li>Further information can be found at <a href="http://taujs.dev" target="_blank">τjs Documentation and Guides</a>.</li>
-        </ul>
-      </section>
-
-      <section className="tip">
-        <p>
-          <strong>SSR:</strong> The <code>/</code> route resolves all data on the server
-          before sending HTML. You get a complete, fully rendered document on first byte,
-          which is ideal for predictable latency and caching.
-        </p>
-        <p>
-          <strong>STREAM:</strong> The <code>/streaming</code> route uses a service descriptor
-          and returns a Promise. The <code>&lt;Suspense&gt;</code> boundary above shows
-          a fallback while the server resolves it, then progressively streams the final content.
-        </p>
-      </section>
-
-      <footer className="app-footer">
-        <p>
-          Built with{" "}
-          <a href="https://taujs.dev" target="_blank" rel="noopener">
-            τjs
-          </a>
-          {" · "}
-          <a href="https://fastify.dev" target="_blank" rel="noopener">
-            Fastify
-          </a>
-          {" · "}
-          <a href="https://react.dev" target="_blank" rel="noopener">
-            React
-          </a>
-        </p>
-      </footer>
-    </div>
+  const target = resolveProjectTarget(
+    args.target ?? answers.target ?? DEFAULT_PROJECT_NAME
   );
-}
-`;
-}
+  const packageName: string =
+    args.packageName ?? answers.packageName ?? target.packageName;
 
-function generateStyles() {
-  return `:root {
-  --accent: #38bdf8;
-  --accent-soft: #0ea5e9;
-  --accent-soft-bg: #0b1120;
-  --bg: #020617;
-  --bg-dark: #000; 
-  --bg-elevated: #020617;
-  --border-subtle: #1e293b;
-  --color-accent-rgb: 56, 189, 248; /* #38bdf8 */
-  --color-app-title-rgb: 229, 231, 235; /* #e5e7eb */
-  --color-border-subtle-rgb: 30, 41, 59; /* #1e293b */
-  --color-code-border-rgb: 51, 65, 85; /* rgba(51, 65, 85, 0.9) */
-  --color-code-bg-rgb: 15, 23, 42; /* rgba(15, 23, 42, 0.9) */
-  --color-tip-border-rgb: 148, 163, 184; /* rgba(148, 163, 184, 0.9) */
-  --color-tip-bg-rgb: 15, 23, 42; /* rgba(15, 23, 42, 0.95) */
-  --color-footer-border-rgb: 30, 64, 175; /* rgba(30, 64, 175, 0.7) */
-  --radius-lg: 12px;
-  --radius-xl: 16px;
-  --shadow-soft: 0 18px 45px rgba(15, 23, 42, 0.7);
-  --text: #f9fafb;
-  --text-muted: #cbd5f5;
-  --text-soft: #9ca3af;
-}
-
-*,
-*::before,
-*::after {
-  box-sizing: border-box;
-}
+  const nameRes = validatePackageName(packageName);
+  if (nameRes !== true) {
+    console.log(
+      pc.red(
+        `\n✖ Invalid package name "${packageName}": ${nameRes}. Use --package-name to choose one.`
+      )
+    );
+    process.exit(1);
+  }
 
-html,
-body {
-  margin: 0;
-  min-height: 100%;
-  padding: 0;
-}
+  const config: ProjectConfig = {
+    packageName,
+    targetDir: target.targetDir,
+    packageManager:
+      given.packageManager ??
+      answers.packageManager ??
+      defaults.packageManager ??
+      detected?.name ??
+      "npm",
+    installDeps: given.installDeps ?? answers.installDeps ?? defaults.installDeps ?? true,
+    verify: args.verify ?? preset.verify ?? defaults.verify ?? false,
+    git: given.git ?? answers.git ?? defaults.git ?? true,
+    taujsVersion,
+    apps: splitAppIds(given.apps ?? answers.apps ?? defaults.apps?.join(",") ?? DEFAULT_APPS),
+    routePreset: given.routePreset ?? answers.routePreset ?? defaults.routePreset ?? "mixed",
+    styling: given.styling ?? answers.styling ?? defaults.styling ?? "css",
+    deploy: given.deploy ?? answers.deploy ?? defaults.deploy ?? "none",
+    template: args.template ?? preset.template ?? defaults.template,
+    force: args.force ?? false,
+  };
 
-body {
-  font-family: system-ui, -apple-system, BlinkMacSystemFont, "SF Pro Text",
-    "Segoe UI", sans-serif;
-  background: radial-gradient(
-    circle at top left,
-    var(--border-subtle) 0,
-    var(--bg) 38%,
-    var(--bg-dark) 85%
+  config.packageManagerVersion = resolvePackageManagerVersion(
+    config.packageManager
   );
-  color: var(--text);
-}
 
-a {
-  color: var(--accent);
-  text-decoration: none;
-}
-
-a:hover,
-a:focus-visible {
-  text-decoration: underline;
-}
+  if (args.savePreset !== undefined) {
+    await savePreset(args.savePreset, config);
+    if (!quiet) console.log(pc.green(`Saved these answers to ${args.savePreset}`));
+  }
 
-code {
-  font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas,
-    "Liberation Mono", "Courier New", monospace;
-  font-size: 0.9em;
-  padding: 0.15rem 0.35rem;
-  border-radius: 4px;
-  background: rgba(var(--color-code-bg-rgb), 0.9);
-  border: 1px solid rgba(var(--color-code-border-rgb), 0.9);
-}
+  if (args.dryRun) {
+    const report = await dryRun(config, { contents: args.content });
+    if (args.json) console.log(JSON.stringify(report, null, 2));
+    else printDryRun(report);
+    return;
+  }
 
-.app {
-  margin: 0 auto;
-  max-width: 960px;
-  padding: 3rem 1.5rem 4rem;
-}
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  process.on("SIGINT", abort);
+  process.on("SIGTERM", abort);
+
+  const targetDir = path.resolve(process.cwd(), config.targetDir);
+  let result: CreateProjectResult;
+  // A retry may switch to another package manager
+  let installer = {
+    packageManager: config.packageManager,
+    packageManagerVersion: config.packageManagerVersion,
+  };
+  let spinner: Spinner | undefined;
+  const stopSpinner = () => {
+    spinner?.stop();
+    spinner = undefined;
+  };
 
-@media (min-width: 768px) {
-  .app {
-    padding: 4rem 2rem 5rem;
+  try {
+    result = await createProject({
+      ...config,
+      signal: controller.signal,
+      installTimeout:
+        args.installTimeout === undefined ? undefined : Number(args.installTimeout) * 1000,
+      confirmNonEmpty: interactive
+        ? async (entries) => {
+            const more = entries.length > 5 ? `, +${entries.length - 5} more` : "";
+            const { proceed } = await prompts({
+              type: "confirm",
+              name: "proceed",
+              message: `Directory ${config.targetDir} is not empty (${entries
+                .slice(0, 5)
+                .join(", ")}${more}). Scaffold into it anyway?`,
+              initial: false,
+            });
+            return Boolean(proceed);
+          }
+        : undefined,
+      resolveConflicts: interactive
+        ? (conflicts, files) => resolveConflicts(targetDir, files, conflicts)
+        : undefined,
+      retryInstall: interactive
+        ? async (install) => {
+            stopSpinner();
+            printInstallFailure(install);
+            const retry = await promptInstallRetry(installer);
+            if (retry?.packageManager) {
+              installer = {
+                packageManager: retry.packageManager,
+                packageManagerVersion: retry.packageManagerVersion,
+              };
+            }
+            return retry;
+          }
+        : undefined,
+      onProgress: (event) => {
+        if (event.type === "install-output") {
+          spinner?.update(event.chunk);
+          return;
+        }
+        stopSpinner();
+        if (event.type === "written") {
+          console.log(pc.green("Project files created"));
+          for (const file of event.kept) {
+            console.log(pc.dim(`  kept existing ${file}`));
+          }
+        } else if (event.step === "preparing a staging directory") {
+          console.log(pc.cyan(`\nCreating project in ${pc.bold(targetDir)}...\n`));
+        } else if (event.step === "verifying the project") {
+          console.log(pc.cyan("\nVerifying the project..."));
+        } else if (event.step === "installing dependencies") {
+          console.log("");
+          spinner = createSpinner(`Installing dependencies with ${installer.packageManager}...`);
+        }
+      },
+    });
+  } catch (error) {
+    if (error instanceof ScaffoldCancelledError) {
+      console.log(pc.red(`\n✖ ${error.message}`));
+      process.exit(controller.signal.aborted ? 130 : 1);
+    }
+    throw error;
+  } finally {
+    stopSpinner();
+    process.off("SIGINT", abort);
+    process.off("SIGTERM", abort);
   }
-}
-
-.app-header {
-  margin-bottom: 2.5rem;
-}
 
-.app-title {
-  color: rgb(var(--color-app-title-rgb));
-  font-size: clamp(2rem, 2.7vw + 1.5rem, 2.8rem);
-  letter-spacing: -0.04em;
-  margin: 0;
-  padding: 0 0 0 60px;
-  position: relative;
-}
+  printResult(result);
+  // The project is in place either way, but scripts should see the failure
+  if (result.verify?.status === "failed") process.exitCode = 1;
+}
+
+function describeInstall(install: InstallResult) {
+  const seconds = `${((install.durationMs ?? 0) / 1000).toFixed(1)}s`;
+  if (install.status === "installed") return `${install.command} finished in ${seconds}`;
+  if (install.timedOut) return `${install.command} ${install.error}`;
+  const exit =
+    install.exitCode == null ? "was stopped" : `exited with code ${install.exitCode}`;
+  return `${install.command} ${exit} after ${seconds}${install.error ? `: ${install.error}` : ""}`;
+}
+
+function printInstallFailure(install: InstallResult) {
+  console.log(pc.red(`✖ ${describeInstall(install)}`));
+  if (install.logFile) console.log(pc.dim(`  Full output: ${install.logFile}`));
+  console.log("");
+}
+
+/**
+ * Offer the ways to retry a failed install: the same command, the package
+ * manager's offline modes, and any other package manager on the PATH.
+ */
+async function promptInstallRetry(current: {
+  packageManager: PackageManager;
+  packageManagerVersion?: string;
+}): Promise<InstallRetry | null> {
+  const { packageManager, packageManagerVersion } = current;
+  const modes = networkModes(packageManager, packageManagerVersion);
+  const others = PACKAGE_MANAGER_NAMES.filter((pm) => pm !== packageManager)
+    .map((pm) => ({ pm, version: resolvePackageManagerVersion(pm) }))
+    .filter((other) => other.version !== undefined);
+
+  const choices: { title: string; description?: string; value: InstallRetry | "skip" }[] = [
+    { title: "Retry", description: installCommand(packageManager), value: {} },
+  ];
+  if (modes.includes("prefer-offline")) {
+    choices.push({
+      title: "Retry, preferring cached packages",
+      description: installCommand(packageManager, "prefer-offline"),
+      value: { network: "prefer-offline" },
+    });
+  }
+  if (modes.includes("offline")) {
+    choices.push({
+      title: "Retry offline, from the cache only",
+      description: installCommand(packageManager, "offline"),
+      value: { network: "offline" },
+    });
+  }
+  for (const { pm, version: pmVersion } of others) {
+    choices.push({
+      title: `Retry with ${pm}`,
+      description: `${pm} ${pmVersion}; files mentioning ${packageManager} are updated`,
+      value: { packageManager: pm, packageManagerVersion: pmVersion },
+    });
+  }
+  choices.push({ title: "Skip, and install later", value: "skip" });
+
+  const { retry } = await prompts({
+    type: "select",
+    name: "retry",
+    message: "Dependencies were not installed:",
+    choices,
+    initial: 0,
+  });
 
-.app-title::before {
-  background: url("/favicon.svg") no-repeat;
-  background-size: 50px 50px;
-  content: "";
-  border-radius: 4px;
-  display: block;
-  height: 50px;
-  left: 0;
-  position: absolute;
-  top: 0;
-  width: 50px;
+  return retry === undefined || retry === "skip" ? null : retry;
 }
 
-.app-subtitle {
-  color: var(--text-soft);
-  font-size: 0.95rem;
-  margin: 0.8rem 0 0;
-}
+function printVerifyReport(report: VerifyReport) {
+  if (report.status === "skipped") {
+    console.log(pc.yellow(`\n⚠ Skipped verification: ${report.reason}`));
+    return;
+  }
 
-.card {
-  background: radial-gradient(
-    circle at top left,
-    var(--accent-soft-bg) 0,
-    var(--bg) 45%
+  console.log(
+    report.status === "passed"
+      ? pc.green("\nVerification passed")
+      : pc.red("\n✖ Verification failed")
   );
-  border: 1px solid rgba(var(--color-accent-rgb), 0.7);
-  border-radius: var(--radius-xl);
-  box-shadow: var(--shadow-soft);
-  overflow: hidden;
-  padding: 1.75rem 1.5rem;
-  position: relative;
-}
-
-.card::before {
-  content: "";
-  position: absolute;
-  inset: -40%;
-  background:
-    radial-gradient(
-      circle at 0 0,
-      rgba(var(--color-accent-rgb), 0.16),
-      transparent 60%
-    ),
-    radial-gradient(
-      circle at 100% 0,
-      rgba(59, 130, 246, 0.2),
-      transparent 65%
-    );
-  opacity: 0.9;
-  pointer-events: none;
-}
-
-.card > * {
-  position: relative;
-}
-
-.card-message {
-  color: var(--text); 
-  font-size: 1.25rem;
-  margin: 0;
-}
-
-.card-meta {
-  color: var(--text-soft);
-  font-size: 0.85rem;
-  margin: 0.6rem 0 0;
-}
-
-.section {
-  background: rgba(var(--color-code-bg-rgb), 0.9);
-  border: 1px solid var(--border-subtle);
-  border-radius: var(--radius-lg);
-  margin-top: 2rem;
-  padding: 1.6rem 1.5rem;
-}
-
-.section-title {
-  color: rgb(var(--color-app-title-rgb));
-  font-size: 1.1rem;
-  margin: 0 0 0.75rem;
-}
-
-.list {
-  color: var(--text-muted);
-  font-size: 0.95rem;
-  line-height: 1.8;
-  margin: 0;
-  padding-left: 1.1rem;
-}
-
-.tip {
-  background: rgba(var(--color-tip-bg-rgb), 0.95);
-  border: 1px solid rgba(var(--color-tip-border-rgb), 0.9);
-  border-radius: 10px;
-  color: var(--text);
-  font-size: 0.9rem;
-  line-height: 1.6;
-  margin-top: 1.6rem;
-  padding: 1.1rem 1.3rem 1.25rem;
-}
-
-.tip p {
-  margin: 0 0 0.6rem;
-}
-
-.tip p:last-child {
-  margin-bottom: 0;
-}
-
-.app-footer {
-  border-top: 1px solid rgba(var(--color-footer-border-rgb), 0.7);
-  color: var(--text-soft);
-  font-size: 0.85rem;
-  margin-top: 3rem;
-  padding-top: 1.4rem;
-  text-align: center;
-}`;
-}
-
-function generateViteEnv() {
-  return `/// <reference types="vite/client" />
-`;
-}
-
-function generateEntryClient() {
-  return `import { hydrateApp } from '@taujs/react';
-import { App } from './App';
 
-hydrateApp({
-  appComponent: <App />,
-  rootElementId: 'root',
-  enableDebug: import.meta.env.DEV,
-});
-`;
-}
-
-function generateEntryServer() {
-  return `import { createRenderer } from '@taujs/react';
-import { App } from './App';
-
-export const { renderSSR, renderStream } = createRenderer({
-  appComponent: () => <App />,
-  headContent: ({ data, meta }) => \`
-    <title>\${meta?.title || "τjs - Composing systems, not just apps"}</title>
-    <meta name="description" content="\${
-      meta?.description ||
-      data?.message ||
-      "τjs - Composing systems, not just apps"
-    }">
-  \`,
-  enableDebug: process.env.NODE_ENV === "development",
-});
-`;
-}
-
-function generateServerIndex() {
-  return `import { createServer } from '@taujs/server';
-import config from '../../taujs.config.ts';
-import { serviceRegistry } from './services/registry.ts';
-
-const isDev = process.env.NODE_ENV !== "production";
-
-const { app, net } = await createServer({
-  config,
-  serviceRegistry,
-  debug: isDev ? { ssr: true } : false,
-});
-
-if (app) {
-  await app.listen({
-    host: net.host,
-    port: net.port,
-  });
-}
-`;
+  for (const check of report.checks) {
+    const mark = check.passed ? pc.green("✓") : pc.red("✖");
+    console.log(`  ${mark} ${check.name} ${pc.dim(`- ${check.detail}`)}`);
+
+    // The last lines of output are where the cause usually is
+    if (!check.passed && check.log.trim()) {
+      const lines = check.log.trimEnd().split("\n");
+      const shown = lines.slice(-40);
+      if (lines.length > shown.length) {
+        console.log(pc.dim(`      ... ${lines.length - shown.length} earlier lines`));
+      }
+      for (const line of shown) console.log(pc.dim(`      ${line}`));
+    }
+  }
 }
 
-function generateServiceRegistry() {
-  return `import { defineServiceRegistry } from '@taujs/server/config';
-import { exampleService } from './example.service.ts';
+function printResult(result: CreateProjectResult) {
+  const { install, git } = result;
 
-export const serviceRegistry = defineServiceRegistry({
-  example: exampleService,
-});
-
-export type ServiceRegistry = typeof serviceRegistry;
-`;
-}
+  if (install.status === "installed") {
+    console.log(pc.green(`\nDependencies installed: ${describeInstall(install)}`));
+    if (install.logFile) console.log(pc.dim(`  Log: ${install.logFile}`));
+  }
 
-function generateServiceTypesAugmentation() {
-  return `import type { RegistryCaller } from '@taujs/server/config';
-import type { serviceRegistry } from './registry';
+  if (result.verify) printVerifyReport(result.verify);
 
-declare module '@taujs/server/config' {
-  interface ServiceContext {
-    call: RegistryCaller<typeof serviceRegistry>;
+  if (git?.status === "committed") {
+    console.log(pc.green(`\nInitial commit created on ${git.branch}`));
+  } else if (git?.status === "initialized") {
+    console.log(
+      pc.yellow(`\n⚠ Git repository initialised without a commit: ${git.reason}`)
+    );
+  } else if (git?.status === "skipped") {
+    console.log(pc.yellow(`\n⚠ Skipped git init: ${git.reason}`));
   }
-}
-`;
-}
 
-function generateExampleService() {
-  return `import { defineService } from '@taujs/server/config';
-
-export const exampleService = defineService({
-  async greet(params: { name: string }) {
-    // Simulate async operation
-    await new Promise((resolve) => setTimeout(resolve, 750));
-
-    const modeDescription =
-      params.name === 'Streaming'
-        ? 'via service descriptors.'
-        : 'via direct ctx.call.';
-
-    return {
-      message: \`Hello, \${params.name}. Response provided by a τjs service \${modeDescription}\`,
-      timestamp: new Date().toISOString(),
-    };
-  },
-
-  async getData(params: { id: string }) {
-    return {
-      id: params.id,
-      data: 'Example data from service',
-      timestamp: new Date().toISOString(),
-    };
-  },
-});
-`;
-}
-
-function generateFavicon() {
-  return `<svg viewBox="0 0 500 500" xmlns="http://www.w3.org/2000/svg">
-  <g transform="matrix(1.203376054763794, 0, 0, 1.203376054763794, -47.249202728271484, -58.526153564453125)">
-    <ellipse style="stroke: rgb(0, 0, 0); fill: rgb(255, 250, 250);" cx="245.728" cy="256.598" rx="171.553" ry="171.553"/>
-    <path d="M 221.7 53.324 C 210 55.024 199.4 57.324 186.1 61.424 C 157.3 70.124 136.8 80.824 114.2 99.024 C 41.1 157.824 18.8 260.524 60.7 345.424 C 67.2 358.624 83.7 382.824 94.7 395.124 C 107.2 409.224 129.3 426.424 147.7 436.424 C 162.7 444.624 187.8 453.624 205.9 457.324 C 226.8 461.624 261.4 461.824 282.7 457.824 C 315.4 451.624 353.3 434.324 375.7 415.424 C 385.3 407.424 399.8 392.224 403.3 386.724 C 404.3 385.124 406.7 381.924 408.7 379.724 C 415.4 371.824 418.7 367.524 419.9 364.624 C 420.6 363.124 422.8 359.324 424.8 356.324 C 428.3 351.024 436.7 333.524 438.2 328.324 C 438.6 326.924 440 323.924 441.3 321.724 C 444.5 316.324 450.2 291.424 451.7 276.824 C 453.4 260.624 452.5 231.724 449.9 218.824 C 444.9 194.024 436.6 172.424 424.6 152.524 C 408 125.224 387.6 103.924 361.5 86.424 C 339.6 71.824 308.9 59.824 280.2 54.724 C 270.6 52.924 231 52.024 221.7 53.324 Z M 271.2 98.324 C 296.7 101.824 323.2 112.324 344.2 127.124 C 352.8 133.224 374.6 154.424 381.4 163.324 C 391 175.924 400.4 197.524 406.4 220.824 C 410.1 235.624 410.2 236.124 410.2 254.324 C 410.1 275.524 408.6 285.624 403.1 302.324 C 392.6 333.724 374.7 359.324 347.2 382.124 C 326.6 399.124 295.4 412.124 266.7 415.524 C 255.1 416.824 229.3 416.024 217.8 413.924 C 179.9 406.924 146.7 388.924 123.2 362.524 C 103.1 339.924 89.2 312.024 83.6 283.024 C 78.9 259.124 81.6 227.024 90.2 202.024 C 92.7 195.024 95.3 188.324 96.1 187.024 C 97 185.824 98.3 182.924 99.1 180.724 C 102.8 170.224 122.6 145.824 135.2 136.424 C 153.1 123.024 158.5 119.524 169.2 114.324 C 190.2 104.124 207.1 99.424 230.7 97.324 C 241.7 96.324 259.7 96.824 271.2 98.324 Z"/>
-    <path d="M 278.7 156.424 C 256.4 156.724 222.2 156.824 202.7 156.524 C 160.8 155.924 164.4 155.024 149.6 169.424 C 138.6 180.324 125.7 197.124 125.7 200.824 C 125.7 201.124 148 201.224 175.2 201.124 L 224.7 200.824 L 224.4 292.824 L 224.2 384.724 L 237.2 385.124 C 244.4 385.324 253.9 385.224 258.5 384.824 L 266.7 384.124 L 266.7 292.424 L 266.7 200.724 L 316.2 200.824 C 373.4 200.824 367.8 202.424 359.5 188.324 C 351.3 174.424 343.7 164.524 338.8 161.324 C 333.8 157.924 325.7 155.224 321.8 155.524 C 320.4 155.624 301 156.024 278.7 156.424 Z"/>
-    <path d="M 113.7 249.324 C 113.7 256.724 113.4 267.124 113.1 272.324 L 112.4 281.824 L 131.5 281.524 L 150.5 281.224 L 151.2 287.424 C 151.9 293.624 151.1 334.524 150.1 339.524 C 149.4 343.124 154.1 348.224 166.6 357.624 C 175.8 364.524 190.4 373.324 192.7 373.324 C 193.5 373.324 193.7 354.224 193.5 304.824 L 193.2 236.324 L 153.4 236.024 L 113.7 235.824 L 113.7 249.324 Z"/>
-    <path d="M 298.2 281.224 C 298.2 347.124 298.6 373.324 299.6 373.324 C 300.8 373.324 317.1 363.324 322.3 359.324 C 324.8 357.424 330 352.824 333.8 349.124 L 340.8 342.324 L 340.7 337.124 C 340.6 334.224 340.6 320.424 340.6 306.524 L 340.7 281.324 L 359.7 281.324 L 378.7 281.324 L 378.6 260.024 C 378.6 248.424 378.3 238.124 377.9 237.324 C 377.3 236.024 371.8 235.824 337.7 235.724 L 298.2 235.624 L 298.2 281.224 Z"/>
-  </g>
-</svg>
-`;
+  if (install.status === "failed") {
+    console.log(pc.yellow(`⚠ Dependency install failed: ${describeInstall(install)}`));
+    if (install.logFile) console.log(pc.dim(`  Full output: ${install.logFile}`));
+    console.log(pc.yellow("  Run the install command before starting the dev server.\n"));
+  }
+  console.log(
+    pc.green(`\n✓ Project ${pc.bold(result.packageName)} created successfully!\n`)
+  );
+  console.log(pc.cyan("Next steps:\n"));
+  for (const command of result.nextSteps) {
+    const note =
+      command === installCommand(result.packageManager) && install.status === "failed"
+        ? "  # (install failed earlier)"
+        : "";
+    console.log(`  ${command}${note}`);
+  }
+  console.log("");
+  console.log(pc.dim("Documentation: https://taujs.dev\n"));
 }
 
 main().catch((error) => {
+  if (error instanceof TargetDirectoryError) {
+    const hint =
+      error.reason === "not-empty"
+        ? ". Use --force to scaffold into it anyway."
+        : error.reason === "conflicts"
+          ? ". Use --force to overwrite them."
+          : "";
+    console.log(pc.red(`\n✖ ${error.message}${hint}`));
+    process.exit(1);
+  }
+  if (error instanceof ScaffoldStepError) {
+    const reason =
+      error.cause instanceof TemplateError
+        ? `Template error: ${error.message}`
+        : error.message;
+    console.log(pc.red(`\n✖ Failed while ${error.step}: ${reason}`));
+    console.log(pc.dim("The target directory was left as it was.\n"));
+    process.exit(1);
+  }
   console.error(pc.red("\n✖ Error creating project:"), error);
   process.exit(1);
 });
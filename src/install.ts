@@ -0,0 +1,164 @@
+import path from "path";
+
+import {
+  CommandError,
+  nodeCommandRunner,
+  timeoutSignal,
+  type CommandRunner,
+} from "./commands";
+import { nodeFileSystem, type FileSystem } from "./fs";
+import { PACKAGE_MANAGERS } from "./package-managers";
+import type { PackageManager } from "./types";
+
+/** Written to the project root; the generated .gitignore ignores `*.log` */
+export const INSTALL_LOG = "create-taujs-install.log";
+
+export const DEFAULT_INSTALL_TIMEOUT_MS = 10 * 60_000;
+
+/** What an install can leave behind in the project */
+export const INSTALL_ARTIFACTS = [
+  "node_modules",
+  ...Object.values(PACKAGE_MANAGERS).flatMap((pm) => pm.lockfiles),
+];
+
+/**
+ * `online` resolves everything against the registry; `prefer-offline` uses
+ * cached metadata and tarballs where it can; `offline` never touches the
+ * network and fails on anything not cached.
+ */
+export type NetworkMode = "online" | "prefer-offline" | "offline";
+
+export type InstallResult = {
+  status: "installed" | "failed" | "skipped";
+  command: string;
+  /** Why the install failed */
+  error?: string;
+  /** Null when the command was killed (e.g. on timeout) or never started */
+  exitCode?: number | null;
+  timedOut?: boolean;
+  durationMs?: number;
+  /** Absolute path of the full install output, when it was captured */
+  logFile?: string;
+  /** `INSTALL_ARTIFACTS` that did not exist before this install */
+  created?: string[];
+};
+
+export type InstallOptions = {
+  packageManager: PackageManager;
+  network?: NetworkMode;
+  /** Defaults to `DEFAULT_INSTALL_TIMEOUT_MS` */
+  timeoutMs?: number;
+  runCommand?: CommandRunner;
+  fileSystem?: FileSystem;
+  signal?: AbortSignal;
+  /** Let the install write to the terminal; nothing is logged */
+  inherit?: boolean;
+  /** Called with output as it arrives, when captured */
+  onOutput?: (chunk: string) => void;
+};
+
+/**
+ * The network modes a package manager's install supports. bun and Yarn
+ * Berry have no per-command offline switch.
+ */
+export function networkModes(
+  packageManager: PackageManager,
+  packageManagerVersion?: string
+): NetworkMode[] {
+  const yarnBerry =
+    packageManager === "yarn" &&
+    packageManagerVersion !== undefined &&
+    !packageManagerVersion.startsWith("1.");
+  return packageManager === "bun" || yarnBerry
+    ? ["online"]
+    : ["online", "prefer-offline", "offline"];
+}
+
+export function installCommand(packageManager: PackageManager, network: NetworkMode = "online") {
+  const { install } = PACKAGE_MANAGERS[packageManager];
+  return network === "online" ? install : `${install} --${network}`;
+}
+
+/** A timeout as `250ms` when under a second, otherwise in seconds (`1.5s`, `600s`) */
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${Number((ms / 1000).toFixed(1))}s`;
+}
+
+/**
+ * Install a project's dependencies. Output is captured to `INSTALL_LOG` in
+ * the project as well as passed to `onOutput`. A failure or timeout is
+ * reported in the result, never thrown; aborting `signal` stops the install
+ * and likewise reports a failure, which the caller can tell apart by the
+ * signal.
+ */
+export async function installDependencies(
+  projectDir: string,
+  options: InstallOptions
+): Promise<InstallResult> {
+  const {
+    packageManager,
+    network = "online",
+    timeoutMs = DEFAULT_INSTALL_TIMEOUT_MS,
+    runCommand = nodeCommandRunner,
+    fileSystem = nodeFileSystem,
+    signal,
+    inherit = false,
+    onOutput,
+  } = options;
+  const command = installCommand(packageManager, network);
+  const [bin, ...args] = command.split(" ");
+
+  const existing = new Set<string>();
+  for (const name of INSTALL_ARTIFACTS) {
+    if (await fileSystem.exists(path.join(projectDir, name))) existing.add(name);
+  }
+
+  const timeout = timeoutSignal(timeoutMs, signal);
+  const started = Date.now();
+  let log = "";
+  const result: InstallResult = { status: "installed", command };
+
+  try {
+    await runCommand(bin, args, {
+      cwd: projectDir,
+      signal: timeout.signal,
+      inherit,
+      onOutput: (chunk) => {
+        log += chunk;
+        onOutput?.(chunk);
+      },
+    });
+    result.exitCode = 0;
+  } catch (error) {
+    result.status = "failed";
+    result.exitCode = error instanceof CommandError ? error.exitCode : null;
+    result.timedOut = timeout.signal.aborted && !signal?.aborted;
+    result.error = result.timedOut
+      ? `timed out after ${formatDuration(timeoutMs)}`
+      : (error as Error).message.split("\n")[0];
+  } finally {
+    timeout.dispose();
+  }
+
+  result.durationMs = Date.now() - started;
+  result.created = [];
+  for (const name of INSTALL_ARTIFACTS) {
+    if (!existing.has(name) && (await fileSystem.exists(path.join(projectDir, name)))) {
+      result.created.push(name);
+    }
+  }
+
+  if (!inherit) {
+    result.logFile = path.join(projectDir, INSTALL_LOG);
+    const summary =
+      result.status === "installed"
+        ? `installed in ${(result.durationMs / 1000).toFixed(1)}s`
+        : `failed (exit code ${result.exitCode ?? "none"}): ${result.error}`;
+    await fileSystem.writeFile(
+      result.logFile,
+      Buffer.from(`$ ${command}\n# in ${projectDir}\n\n${log}\n# ${summary}\n`)
+    );
+  }
+
+  return result;
+}
@@ -0,0 +1,73 @@
+import { createHash } from "crypto";
+import path from "path";
+
+import { version } from "../package.json";
+import type { TemplateFile } from "./templates";
+import type { ProjectConfig } from "./types";
+
+/**
+ * Written into every generated project so `create-taujs upgrade` can tell
+ * which release rendered it, with which options, and which files have been
+ * edited since.
+ */
+export const MANIFEST_FILE = "create-taujs.json";
+
+/** The options that decide what the templates render */
+export type ManifestOptions = Pick<
+  ProjectConfig,
+  | "packageName"
+  | "packageManager"
+  | "packageManagerVersion"
+  | "installDeps"
+  | "taujsVersion"
+  | "apps"
+  | "routePreset"
+  | "styling"
+  | "deploy"
+  | "template"
+>;
+
+export type ProjectManifest = {
+  /** create-taujs release whose templates were rendered */
+  version: string;
+  options: ManifestOptions;
+  /** sha256 of each rendered file, by path */
+  files: Record<string, string>;
+};
+
+export function hashContents(contents: Buffer | string) {
+  return createHash("sha256").update(contents).digest("hex");
+}
+
+export function createManifest(
+  config: ProjectConfig,
+  files: TemplateFile[],
+  cwd = process.cwd()
+): ProjectManifest {
+  const projectDir = path.resolve(cwd, config.targetDir);
+
+  return {
+    version,
+    options: {
+      packageName: config.packageName,
+      packageManager: config.packageManager,
+      packageManagerVersion: config.packageManagerVersion,
+      installDeps: config.installDeps,
+      taujsVersion: config.taujsVersion,
+      apps: config.apps,
+      routePreset: config.routePreset,
+      styling: config.styling,
+      deploy: config.deploy,
+      // Relative to the project, so the manifest still points at it from a clone
+      template:
+        config.template &&
+        path.relative(projectDir, path.resolve(cwd, config.template)).split(path.sep).join("/"),
+    },
+    files: Object.fromEntries(
+      files
+        .filter((file) => file.path !== MANIFEST_FILE)
+        .sort((a, b) => a.path.localeCompare(b.path))
+        .map((file) => [file.path, hashContents(file.contents)])
+    ),
+  };
+}
@@ -0,0 +1,123 @@
+import { diffArrays } from "diff";
+
+/**
+ * Line-based three-way merge, as `git merge-file` does it: changes made on
+ * only one side since `base` are taken as they are, identical changes made
+ * on both sides are taken once, and anything else becomes a conflict block
+ * with both versions between markers.
+ */
+
+export type MergeResult = {
+  text: string;
+  /** Number of conflict blocks written into `text` */
+  conflicts: number;
+};
+
+type Side = "ours" | "theirs";
+
+/** A run of `base` lines, from `start` up to `end`, replaced by `lines` */
+type Hunk = { side: Side; start: number; end: number; lines: string[] };
+
+function splitLines(text: string) {
+  return text.split(/(?<=\n)/).filter(Boolean);
+}
+
+function hunks(side: Side, base: string[], changed: string[]): Hunk[] {
+  const result: Hunk[] = [];
+  let index = 0;
+  let current: Hunk | null = null;
+
+  for (const part of diffArrays(base, changed)) {
+    if (!part.added && !part.removed) {
+      index += part.count;
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = { side, start: index, end: index, lines: [] };
+      result.push(current);
+    }
+    if (part.removed) {
+      index += part.count;
+      current.end = index;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+
+  return result;
+}
+
+/** Apply one side's hunks to `base[start..end)` */
+function applyHunks(base: string[], start: number, end: number, sideHunks: Hunk[]) {
+  const lines: string[] = [];
+  let cursor = start;
+  for (const hunk of sideHunks) {
+    lines.push(...base.slice(cursor, hunk.start), ...hunk.lines);
+    cursor = hunk.end;
+  }
+  lines.push(...base.slice(cursor, end));
+  return lines;
+}
+
+function withTrailingNewline(lines: string[]) {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith("\n")
+    ? lines
+    : [...lines.slice(0, -1), `${last}\n`];
+}
+
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string }
+): MergeResult {
+  const baseLines = splitLines(base);
+  const all = [
+    ...hunks("ours", baseLines, splitLines(ours)),
+    ...hunks("theirs", baseLines, splitLines(theirs)),
+  ].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const output: string[] = [];
+  let cursor = 0;
+  let conflicts = 0;
+
+  for (let i = 0; i < all.length; ) {
+    // Hunks that overlap or touch are resolved together
+    const group = [all[i++]];
+    const start = group[0].start;
+    let end = group[0].end;
+    while (i < all.length && all[i].start <= end) {
+      end = Math.max(end, all[i].end);
+      group.push(all[i++]);
+    }
+
+    output.push(...baseLines.slice(cursor, start));
+    cursor = end;
+
+    const ourHunks = group.filter((hunk) => hunk.side === "ours");
+    const theirHunks = group.filter((hunk) => hunk.side === "theirs");
+    const ourLines = applyHunks(baseLines, start, end, ourHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+
+    if (theirHunks.length === 0 || ourLines.join("") === theirLines.join("")) {
+      output.push(...ourLines);
+    } else if (ourHunks.length === 0) {
+      output.push(...theirLines);
+    } else {
+      conflicts++;
+      output.push(
+        `<<<<<<< ${labels.ours}\n`,
+        ...withTrailingNewline(ourLines),
+        "=======\n",
+        ...withTrailingNewline(theirLines),
+        `>>>>>>> ${labels.theirs}\n`
+      );
+    }
+  }
+
+  output.push(...baseLines.slice(cursor));
+
+  return { text: output.join(""), conflicts };
+}
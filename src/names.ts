@@ -0,0 +1,113 @@
+import { builtinModules } from "module";
+import path from "path";
+
+import { ROUTE_PRESETS } from "./route-presets";
+
+const SCOPED_NAME = /^@([^/]+)\/([^/]+)$/;
+
+// Never valid as a package name, whatever the registry
+const RESERVED_NAMES = ["node_modules", "favicon.ico"];
+
+/**
+ * Check a package name against the rules npm applies to new packages, the
+ * same ones `validate-npm-package-name` enforces.
+ */
+export function validatePackageName(name: string): true | string {
+  if (!name) return "Package name is required";
+  if (name.trim() !== name) {
+    return "Package name cannot have leading or trailing spaces";
+  }
+  if (name.length > 214) {
+    return "Package name cannot be longer than 214 characters";
+  }
+  if (name.toLowerCase() !== name) {
+    return "Package name cannot contain uppercase letters";
+  }
+
+  const scoped = SCOPED_NAME.exec(name);
+  const parts = scoped ? [scoped[1], scoped[2]] : [name];
+
+  if (name.startsWith("@") && !scoped) {
+    return "Scoped package name must look like @scope/name";
+  }
+
+  for (const part of parts) {
+    if (/^[._]/.test(part)) {
+      return "Package name cannot start with a dot or an underscore";
+    }
+    if (/[~'!()*]/.test(part)) {
+      return "Package name cannot contain any of ~'!()*";
+    }
+    if (encodeURIComponent(part) !== part) {
+      return "Package name can only contain URL-safe characters";
+    }
+  }
+
+  const bare = parts[parts.length - 1];
+  if (RESERVED_NAMES.includes(bare)) return `"${bare}" is a reserved name`;
+  if (!scoped && builtinModules.includes(name)) {
+    return `"${name}" is the name of a Node.js core module`;
+  }
+
+  return true;
+}
+
+/**
+ * Apps after the first are mounted at /<appId>, next to the routes the
+ * route presets give the first app, so their IDs cannot be the first
+ * segment of any of those routes (/streaming, /client).
+ */
+const PRESET_ROUTE_SEGMENTS = [
+  ...new Set(
+    Object.values(ROUTE_PRESETS).flatMap(({ routes }) =>
+      routes.map((route) => route.path.split("/")[1]).filter(Boolean)
+    )
+  ),
+];
+
+export function validateAppIds(ids: string[]): true | string {
+  if (ids.length === 0) return "At least one app ID is required";
+
+  for (const id of ids) {
+    if (!/^[a-z][a-z0-9-]*$/.test(id)) {
+      return `App ID "${id}" must start with a letter and contain only lowercase letters, numbers, and hyphens`;
+    }
+  }
+
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) return `App ID "${duplicate}" is listed more than once`;
+
+  const clash = ids.slice(1).find((id) => PRESET_ROUTE_SEGMENTS.includes(id));
+  if (clash) {
+    return `App ID "${clash}" clashes with the /${clash} route that route presets give "${ids[0]}"`;
+  }
+
+  return true;
+}
+
+/**
+ * Where to scaffold and what to call the package, from what was typed:
+ * a path (`apps/storefront`, `../sandbox/demo`, `.`) is used as the target
+ * directory and named after its last segment; a scoped package name
+ * (`@acme/storefront`) is used as the name and scaffolded into a directory
+ * named after its unscoped part.
+ */
+export function resolveProjectTarget(input: string, cwd = process.cwd()) {
+  const scoped = SCOPED_NAME.exec(input);
+  if (scoped) return { targetDir: scoped[2], packageName: input };
+
+  return {
+    targetDir: input,
+    packageName: toPackageName(path.basename(path.resolve(cwd, input))),
+  };
+}
+
+/** Best-effort conversion of a directory name into a package name */
+function toPackageName(dirName: string) {
+  return dirName
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/^[._]+/, "")
+    .replace(/[^a-z0-9-._]+/g, "-");
+}
@@ -0,0 +1,89 @@
+import { execSync } from "child_process";
+
+import type { PackageManager } from "./types";
+
+type PackageManagerInfo = {
+  install: string;
+  /** Prefix for running a package.json script */
+  run: string;
+  /** Prefix for running a binary from node_modules/.bin */
+  exec: string;
+  lockfiles: string[];
+};
+
+export const PACKAGE_MANAGERS: Record<PackageManager, PackageManagerInfo> = {
+  npm: {
+    install: "npm install",
+    run: "npm run",
+    exec: "npx",
+    lockfiles: ["package-lock.json"],
+  },
+  pnpm: {
+    install: "pnpm install",
+    run: "pnpm",
+    exec: "pnpm exec",
+    lockfiles: ["pnpm-lock.yaml"],
+  },
+  yarn: {
+    install: "yarn install",
+    run: "yarn",
+    exec: "yarn",
+    lockfiles: ["yarn.lock"],
+  },
+  // `bun <name>` resolves built-ins such as `bun build` before scripts, so
+  // scripts always go through `bun run`
+  bun: {
+    install: "bun install",
+    run: "bun run",
+    exec: "bunx",
+    lockfiles: ["bun.lock", "bun.lockb"],
+  },
+};
+
+export const PACKAGE_MANAGER_NAMES = Object.keys(
+  PACKAGE_MANAGERS
+) as PackageManager[];
+
+export function isPackageManager(value: string): value is PackageManager {
+  return value in PACKAGE_MANAGERS;
+}
+
+export function runCommand(pm: PackageManager, script: string) {
+  return `${PACKAGE_MANAGERS[pm].run} ${script}`;
+}
+
+/**
+ * The package manager that launched us, from the user agent it sets, e.g.
+ * `pnpm/9.1.0 npm/? node/v22.17.0 linux x64` for `pnpm create taujs`.
+ */
+export function detectPackageManager(
+  userAgent = process.env.npm_config_user_agent
+): { name: PackageManager; version?: string } | undefined {
+  const match = /^([\w-]+)\/(\S+)/.exec(userAgent ?? "");
+  if (!match || !isPackageManager(match[1])) return undefined;
+
+  const version = /^\d+\.\d+\.\d+(-[\w.]+)?$/.test(match[2]) ? match[2] : undefined;
+  return { name: match[1], version };
+}
+
+/**
+ * Exact version of a package manager for the `packageManager` field. Taken
+ * from the user agent when that manager launched us, otherwise asked of the
+ * binary. Undefined when it cannot be determined.
+ */
+export function resolvePackageManagerVersion(pm: PackageManager): string | undefined {
+  const detected = detectPackageManager();
+  if (detected?.name === pm && detected.version) return detected.version;
+
+  try {
+    const output = execSync(`${pm} --version`, {
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: 5000,
+    })
+      .toString()
+      .trim();
+    return /^\d+\.\d+\.\d+(-[\w.]+)?$/.test(output) ? output : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,201 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { DEPLOY_NAMES } from "./deploy";
+import { validateAppIds } from "./names";
+import { PACKAGE_MANAGER_NAMES } from "./package-managers";
+import { ROUTE_PRESET_NAMES } from "./route-presets";
+import { STYLING_NAMES } from "./styling";
+import type { ProjectConfig } from "./types";
+
+/**
+ * Saved answers. A `--preset` file answers its questions outright; a
+ * defaults file (`~/.create-taujsrc.json`, and the nearest
+ * `.create-taujsrc.json` above the working directory) only pre-fills them.
+ * Both use the same JSON shape: any of `PRESET_KEYS`, with the values the
+ * matching `ProjectConfig` field takes.
+ */
+
+export const DEFAULTS_FILE = ".create-taujsrc.json";
+
+export const PRESET_KEYS = [
+  "packageManager",
+  "installDeps",
+  "verify",
+  "git",
+  "apps",
+  "routePreset",
+  "styling",
+  "deploy",
+  "taujsVersion",
+  "template",
+] as const satisfies readonly (keyof ProjectConfig)[];
+
+export type PresetKey = (typeof PRESET_KEYS)[number];
+
+export type Preset = Partial<Pick<ProjectConfig, PresetKey>>;
+
+// Specific to one project, so never read from a shared file
+const PROJECT_KEYS: readonly string[] = [
+  "packageName",
+  "targetDir",
+  "packageManagerVersion",
+  "force",
+] satisfies (keyof ProjectConfig)[];
+
+export class PresetError extends Error {
+  constructor(
+    readonly file: string,
+    readonly problems: string[]
+  ) {
+    super(`Invalid preset ${file}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+    this.name = "PresetError";
+  }
+}
+
+type Check = (value: unknown) => true | string;
+
+const oneOf =
+  (names: readonly string[]): Check =>
+  (value) =>
+    typeof value === "string" && names.includes(value)
+      ? true
+      : `must be one of ${names.join(", ")}`;
+
+const boolean: Check = (value) =>
+  typeof value === "boolean" ? true : "must be true or false";
+
+const string: Check = (value) =>
+  typeof value === "string" && value.trim() !== "" ? true : "must be a non-empty string";
+
+const CHECKS: Record<PresetKey, Check> = {
+  packageManager: oneOf(PACKAGE_MANAGER_NAMES),
+  installDeps: boolean,
+  verify: boolean,
+  git: boolean,
+  apps: (value) =>
+    Array.isArray(value) && value.every((id) => typeof id === "string")
+      ? validateAppIds(value)
+      : 'must be a list of app IDs, e.g. ["shop", "admin"]',
+  routePreset: oneOf(ROUTE_PRESET_NAMES),
+  styling: oneOf(STYLING_NAMES),
+  deploy: oneOf(DEPLOY_NAMES),
+  taujsVersion: string,
+  template: string,
+};
+
+function isPresetKey(key: string): key is PresetKey {
+  return (PRESET_KEYS as readonly string[]).includes(key);
+}
+
+/** Check parsed JSON against the preset shape, reporting every problem at once */
+export function validatePreset(value: unknown, file: string): Preset {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new PresetError(file, ["expected a JSON object"]);
+  }
+
+  const problems: string[] = [];
+  const preset: Record<string, unknown> = {};
+  let unknownKeys = false;
+
+  for (const [key, entry] of Object.entries(value)) {
+    if (!isPresetKey(key)) {
+      if (PROJECT_KEYS.includes(key)) {
+        problems.push(`"${key}" is specific to one project; pass it on the command line`);
+      } else {
+        problems.push(`unknown key "${key}"`);
+        unknownKeys = true;
+      }
+      continue;
+    }
+    const result = CHECKS[key](entry);
+    if (result === true) preset[key] = entry;
+    else problems.push(`"${key}" ${result}, got ${JSON.stringify(entry)}`);
+  }
+
+  if (preset.verify === true && preset.installDeps === false) {
+    problems.push('"verify" needs dependencies installed; drop "installDeps": false');
+  }
+  if (unknownKeys) problems.push(`Known keys: ${PRESET_KEYS.join(", ")}`);
+  if (problems.length > 0) throw new PresetError(file, problems);
+
+  return preset as Preset;
+}
+
+/**
+ * Read and validate a preset file. A relative `template` is resolved against
+ * the preset's own directory, so a preset committed next to its template
+ * works from anywhere.
+ */
+export async function loadPreset(file: string, cwd = process.cwd()): Promise<Preset> {
+  const fullPath = path.resolve(cwd, file);
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(await fs.readFile(fullPath, "utf8"));
+  } catch (error) {
+    const reason =
+      (error as NodeJS.ErrnoException).code === "ENOENT"
+        ? "file not found"
+        : `not valid JSON (${(error as Error).message})`;
+    throw new PresetError(file, [reason]);
+  }
+
+  const preset = validatePreset(parsed, file);
+  if (preset.template) {
+    preset.template = path.resolve(path.dirname(fullPath), preset.template);
+  }
+  return preset;
+}
+
+/**
+ * Load the user-level defaults file and the nearest repo-level one above
+ * `cwd`. Repo defaults win over the user's.
+ */
+export async function loadDefaults(
+  cwd = process.cwd(),
+  homeDir = os.homedir()
+): Promise<{ defaults: Preset; files: string[] }> {
+  const userFile = path.join(homeDir, DEFAULTS_FILE);
+  const files: string[] = [];
+
+  if (await fs.pathExists(userFile)) files.push(userFile);
+
+  for (let dir = path.resolve(cwd); ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, DEFAULTS_FILE);
+    if (candidate !== userFile && (await fs.pathExists(candidate))) {
+      files.push(candidate);
+      break;
+    }
+    if (path.dirname(dir) === dir) break;
+  }
+
+  let defaults: Preset = {};
+  for (const file of files) {
+    defaults = { ...defaults, ...(await loadPreset(file)) };
+  }
+
+  return { defaults, files };
+}
+
+/**
+ * Write the answers in `config` to a preset file. `template` is stored
+ * relative to the file, which is how `loadPreset` reads it back.
+ */
+export async function savePreset(file: string, config: ProjectConfig, cwd = process.cwd()) {
+  const fullPath = path.resolve(cwd, file);
+  const preset: Preset = {};
+
+  for (const key of PRESET_KEYS) {
+    if (config[key] !== undefined) Object.assign(preset, { [key]: config[key] });
+  }
+  if (preset.template) {
+    preset.template = path
+      .relative(path.dirname(fullPath), path.resolve(cwd, preset.template))
+      .split(path.sep)
+      .join("/");
+  }
+
+  await fs.outputFile(fullPath, `${JSON.stringify(preset, null, 2)}\n`);
+}
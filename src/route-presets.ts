@@ -0,0 +1,71 @@
+import type { RoutePreset } from "./types";
+
+/**
+ * How a route is served. `static` is server-rendered with `hydrate: false`;
+ * `client` has no entry in taujs.config.ts at all, so the server answers with
+ * the first app's HTML shell and the browser renders it.
+ */
+export type RouteKind = "ssr" | "streaming" | "static" | "client";
+
+/** Page components under pages/, one per route */
+export type PageName = "HomePage" | "StreamingPage" | "ClientPage";
+
+type RoutePresetInfo = {
+  label: string;
+  hint: string;
+  /** Paths are relative to each app's base path; "" is its home route */
+  routes: { kind: RouteKind; path: string; page: PageName; title: string }[];
+};
+
+export const ROUTE_PRESETS: Record<RoutePreset, RoutePresetInfo> = {
+  mixed: {
+    label: "Mixed",
+    hint: "an SSR home page and a streaming page",
+    routes: [
+      { kind: "ssr", path: "", page: "HomePage", title: "Home" },
+      {
+        kind: "streaming",
+        path: "/streaming",
+        page: "StreamingPage",
+        title: "Streaming",
+      },
+    ],
+  },
+  ssr: {
+    label: "SSR only",
+    hint: "data resolved before the first byte",
+    routes: [{ kind: "ssr", path: "", page: "HomePage", title: "Home" }],
+  },
+  streaming: {
+    label: "Streaming only",
+    hint: "the shell first, data streamed in as it resolves",
+    routes: [{ kind: "streaming", path: "", page: "HomePage", title: "Home" }],
+  },
+  static: {
+    label: "Static",
+    hint: "server-rendered HTML with no client JavaScript",
+    routes: [{ kind: "static", path: "", page: "HomePage", title: "Home" }],
+  },
+  client: {
+    label: "Client-rendered",
+    hint: "an SSR home page and a page rendered in the browser",
+    routes: [
+      { kind: "ssr", path: "", page: "HomePage", title: "Home" },
+      { kind: "client", path: "/client", page: "ClientPage", title: "Client" },
+    ],
+  },
+};
+
+export const ROUTE_PRESET_NAMES = Object.keys(ROUTE_PRESETS) as RoutePreset[];
+
+export function isRoutePreset(value: string): value is RoutePreset {
+  return value in ROUTE_PRESETS;
+}
+
+/** How the demo page describes each kind of route, after "Visit /path for" */
+export const ROUTE_LABELS: Record<RouteKind, string> = {
+  ssr: "standard SSR",
+  streaming: "streaming SSR",
+  static: "a static page with no client JavaScript",
+  client: "client-side rendering",
+};
@@ -0,0 +1,56 @@
+import pc from "picocolors";
+
+const FRAMES = ["⠋", "⠙", "⠹", "⠸", "⠼", "⠴", "⠦", "⠧", "⠇", "⠏"];
+const ANSI_ESCAPE = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+export type Spinner = {
+  /** Show `output`'s last non-empty line after the elapsed time */
+  update(output: string): void;
+  /** Clear the line */
+  stop(): void;
+};
+
+/**
+ * A one-line progress indicator for a long-running command, redrawn in
+ * place with the elapsed time and the command's latest line of output.
+ * Without a TTY it prints `text` once and stays quiet, so logs stay clean.
+ */
+export function createSpinner(text: string, stream: NodeJS.WriteStream = process.stdout): Spinner {
+  if (!stream.isTTY) {
+    stream.write(`${text}\n`);
+    return { update: () => {}, stop: () => {} };
+  }
+
+  const started = Date.now();
+  let frame = 0;
+  let detail = "";
+
+  const render = () => {
+    const status = `${FRAMES[frame++ % FRAMES.length]} ${text} ${Math.floor((Date.now() - started) / 1000)}s`;
+    const room = (stream.columns || 80) - status.length - 2;
+    const tail =
+      detail && room > 10
+        ? ` ${detail.length > room ? `${detail.slice(0, room - 1)}…` : detail}`
+        : "";
+    stream.write(`\r\x1b[2K${pc.cyan(status)}${pc.dim(tail)}`);
+  };
+
+  const timer = setInterval(render, 80);
+  render();
+
+  return {
+    update(output) {
+      const line = output
+        .replace(ANSI_ESCAPE, "")
+        .split(/[\r\n]+/)
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .pop();
+      if (line) detail = line;
+    },
+    stop() {
+      clearInterval(timer);
+      stream.write("\r\x1b[2K");
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import type { Styling } from "./types";
+
+type StylingInfo = {
+  label: string;
+  hint: string;
+  /**
+   * Added to package.json `dependencies`, pinned from the release's `extras`.
+   * The production server imports taujs.config.ts and the Vite plugins it
+   * lists, so they are needed at runtime, not only to build.
+   */
+  dependencies: string[];
+};
+
+export const STYLING_STRATEGIES: Record<Styling, StylingInfo> = {
+  css: {
+    label: "Plain CSS",
+    hint: "one global stylesheet",
+    dependencies: [],
+  },
+  "css-modules": {
+    label: "CSS Modules",
+    hint: "styles scoped to each component",
+    dependencies: [],
+  },
+  tailwind: {
+    label: "Tailwind CSS",
+    hint: "utility classes, with the theme in styles.css",
+    dependencies: ["@tailwindcss/vite", "tailwindcss"],
+  },
+};
+
+export const STYLING_NAMES = Object.keys(STYLING_STRATEGIES) as Styling[];
+
+export function isStyling(value: string): value is Styling {
+  return value in STYLING_STRATEGIES;
+}
+
+type DemoElement =
+  | "app"
+  | "header"
+  | "title"
+  | "subtitle"
+  | "nav"
+  | "card"
+  | "cardMessage"
+  | "cardMeta"
+  | "section"
+  | "sectionTitle"
+  | "list"
+  | "tip"
+  | "footer";
+
+// Global class names in styles.css
+const CSS_CLASSES: Record<DemoElement, string> = {
+  app: "app",
+  header: "app-header",
+  title: "app-title",
+  subtitle: "app-subtitle",
+  nav: "app-nav",
+  card: "card card--primary",
+  cardMessage: "card-message",
+  cardMeta: "card-meta",
+  section: "section",
+  sectionTitle: "section-title",
+  list: "list",
+  tip: "tip",
+  footer: "app-footer",
+};
+
+// The same rules as utilities. Colours, radii and the pseudo-element
+// utilities (title-logo, card-glow, bg-card) are defined in styles.css.
+const TAILWIND_CLASSES: Record<DemoElement, string> = {
+  app: "mx-auto max-w-[960px] px-6 pt-12 pb-16 md:px-8 md:pt-16 md:pb-20",
+  header: "mb-10",
+  title:
+    "title-logo relative m-0 pl-[60px] text-hero leading-[normal] font-bold tracking-[-0.04em] text-heading",
+  subtitle: "mt-[0.8rem] mb-0 text-[0.95rem] text-fg-soft",
+  nav: "mt-[1.2rem] flex flex-wrap gap-4 text-[0.95rem]",
+  card: "card-glow bg-card relative overflow-hidden rounded-card border border-accent/70 px-6 py-7 shadow-soft *:relative",
+  cardMessage: "m-0 text-[1.25rem] text-fg",
+  cardMeta: "mt-[0.6rem] mb-0 text-[0.85rem] text-fg-soft",
+  section: "mt-8 rounded-panel border border-line bg-panel px-6 py-[1.6rem]",
+  sectionTitle: "mt-0 mb-3 text-[1.1rem] font-bold text-heading",
+  list: "m-0 list-disc pl-[1.1rem] text-[0.95rem] leading-[1.8] text-fg-muted",
+  tip: "mt-[1.6rem] rounded-[10px] border border-tip-line bg-tip px-[1.3rem] pt-[1.1rem] pb-5 text-[0.9rem] leading-[1.6] text-fg [&_p]:mt-0 [&_p]:mb-[0.6rem] [&_p:last-child]:mb-0",
+  footer:
+    "mt-12 border-t border-footer-line pt-[1.4rem] text-center text-[0.85rem] text-fg-soft [&_p]:my-[1em]",
+};
+
+/**
+ * The `className` attribute for each element of the demo pages, so the
+ * components are written once and look the same under every strategy.
+ */
+export function demoClassNames(styling: Styling): Record<DemoElement, string> {
+  const attributes = {} as Record<DemoElement, string>;
+
+  for (const element of Object.keys(CSS_CLASSES) as DemoElement[]) {
+    attributes[element] =
+      styling === "css-modules"
+        ? `className={styles.${element}}`
+        : `className="${(styling === "tailwind" ? TAILWIND_CLASSES : CSS_CLASSES)[element]}"`;
+  }
+
+  return attributes;
+}
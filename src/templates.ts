@@ -0,0 +1,449 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import * as tar from "tar";
+import { fileURLToPath } from "url";
+
+/**
+ * Template engine for the files create-taujs writes.
+ *
+ * Templates are plain files under `templates/<name>/`. Any text file may use:
+ *
+ *   {{ packageName }}                    interpolation (dotted paths allowed)
+ *   {{#if expr}} … {{else}} … {{/if}}    conditional section
+ *   {{#unless expr}} … {{/unless}}       negated conditional section
+ *   {{#each list as item}} … {{/each}}   repeat per item; @index, @first, @last
+ *   \{{                                  literal "{{"
+ *
+ * `expr` is a variable path, optionally negated with `!`, compared with
+ * `==` / `!=` against a "quoted string" or another path, and combined with
+ * `&&` / `||`.
+ *
+ * A block tag alone on its line consumes the whole line, so conditionals do
+ * not leave blank lines behind. Anything between braces that is not a
+ * variable path (for example a JSX `style={{ margin: 0 }}`) is left as is.
+ */
+
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateContext = { [key: string]: TemplateValue };
+
+export type TemplateFile = {
+  /** Output path relative to the project root, always `/`-separated */
+  path: string;
+  contents: Buffer;
+};
+
+export class TemplateError extends Error {
+  constructor(message: string, readonly file?: string) {
+    super(file ? `${file}: ${message}` : message);
+    this.name = "TemplateError";
+  }
+}
+
+export const TEMPLATES_DIR = fileURLToPath(
+  new URL("../templates", import.meta.url)
+);
+
+export const BUILTIN_TEMPLATE_DIR = path.join(TEMPLATES_DIR, "default");
+
+// npm never publishes a file called .gitignore, so templates ship them under
+// an underscore name and get renamed on the way out.
+const RENAMED_FILES: Record<string, string> = {
+  _gitignore: ".gitignore",
+  _npmrc: ".npmrc",
+};
+
+const APP_SEGMENT = "[app]";
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; line: number }
+  | {
+      type: "if";
+      expr: string;
+      negate: boolean;
+      then: Node[];
+      otherwise: Node[];
+      line: number;
+    }
+  | { type: "each"; path: string; alias: string; body: Node[]; line: number };
+
+type Block = {
+  kind: "root" | "if" | "unless" | "each";
+  node?: Extract<Node, { type: "if" | "each" }>;
+  nodes: Node[];
+  inElse: boolean;
+};
+
+const TAG = /\\?\{\{\s*([^{}]*?)\s*\}\}/g;
+const VAR_PATH = /^@?[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+const BLOCK_TAG = /^(#(if|unless|each)(\s|$)|(else|\/if|\/unless|\/each)$)/;
+
+function lineOf(source: string, index: number) {
+  let line = 1;
+  for (let i = 0; i < index; i++) if (source[i] === "\n") line++;
+  return line;
+}
+
+function parse(source: string, file?: string): Node[] {
+  const root: Block = { kind: "root", nodes: [], inElse: false };
+  const stack: Block[] = [root];
+  let cursor = 0;
+
+  const current = () => stack[stack.length - 1];
+  const push = (node: Node) => {
+    const block = current();
+    if (block.node?.type === "if") {
+      (block.inElse ? block.node.otherwise : block.node.then).push(node);
+    } else if (block.node?.type === "each") {
+      block.node.body.push(node);
+    } else {
+      block.nodes.push(node);
+    }
+  };
+  const text = (value: string) => {
+    if (value) push({ type: "text", value });
+  };
+
+  for (const match of source.matchAll(TAG)) {
+    const raw = match[0];
+    const inner = match[1];
+    let start = match.index!;
+    let end = start + raw.length;
+
+    if (raw.startsWith("\\")) {
+      text(source.slice(cursor, start) + raw.slice(1));
+      cursor = end;
+      continue;
+    }
+
+    const isBlock = BLOCK_TAG.test(inner);
+    if (!isBlock && !VAR_PATH.test(inner)) continue;
+
+    const line = lineOf(source, start);
+
+    if (isBlock) {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      let lineEnd = source.indexOf("\n", end);
+      if (lineEnd === -1) lineEnd = source.length;
+      if (
+        lineStart >= cursor &&
+        source.slice(lineStart, start).trim() === "" &&
+        source.slice(end, lineEnd).trim() === ""
+      ) {
+        start = lineStart;
+        end = Math.min(lineEnd + 1, source.length);
+      }
+    }
+
+    text(source.slice(cursor, start));
+    cursor = end;
+
+    if (!isBlock) {
+      push({ type: "var", path: inner, line });
+      continue;
+    }
+
+    const [keyword, ...rest] = inner.split(/\s+/);
+    const arg = rest.join(" ");
+
+    if (keyword === "#if" || keyword === "#unless") {
+      if (!arg) throw new TemplateError(`${keyword} needs an expression (line ${line})`, file);
+      const node: Node = {
+        type: "if",
+        expr: arg,
+        negate: keyword === "#unless",
+        then: [],
+        otherwise: [],
+        line,
+      };
+      push(node);
+      stack.push({ kind: keyword === "#if" ? "if" : "unless", node, nodes: [], inElse: false });
+    } else if (keyword === "#each") {
+      const each = /^(\S+)\s+as\s+([A-Za-z_$][\w$]*)$/.exec(arg);
+      if (!each || !VAR_PATH.test(each[1])) {
+        throw new TemplateError(
+          `#each expects "{{#each list as item}}" (line ${line})`,
+          file
+        );
+      }
+      const node: Node = { type: "each", path: each[1], alias: each[2], body: [], line };
+      push(node);
+      stack.push({ kind: "each", node, nodes: [], inElse: false });
+    } else if (keyword === "else") {
+      const block = current();
+      if ((block.kind !== "if" && block.kind !== "unless") || block.inElse) {
+        throw new TemplateError(`Unexpected {{else}} (line ${line})`, file);
+      }
+      block.inElse = true;
+    } else {
+      const kind = keyword.slice(1);
+      if (current().kind !== kind) {
+        throw new TemplateError(`Unexpected {{${keyword}}} (line ${line})`, file);
+      }
+      stack.pop();
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = current();
+    throw new TemplateError(
+      `Unclosed {{#${open.kind}}} (line ${open.node!.line})`,
+      file
+    );
+  }
+
+  text(source.slice(cursor));
+  return root.nodes;
+}
+
+type Scope = TemplateContext[];
+
+function lookup(scope: Scope, name: string): TemplateValue {
+  const [head, ...tail] = name.split(".");
+  for (let i = scope.length - 1; i >= 0; i--) {
+    if (head in scope[i]) {
+      let value: TemplateValue = scope[i][head];
+      for (const key of tail) {
+        if (value === null || typeof value !== "object" || Array.isArray(value)) {
+          return undefined;
+        }
+        value = value[key];
+      }
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function evaluate(expr: string, scope: Scope): boolean {
+  const or = expr.split("||");
+  if (or.length > 1) return or.some((part) => evaluate(part.trim(), scope));
+
+  const and = expr.split("&&");
+  if (and.length > 1) return and.every((part) => evaluate(part.trim(), scope));
+
+  const compare = /^(\S+?)\s*(==|!=)\s*(.+)$/.exec(expr);
+  if (compare) {
+    const operand = (side: string) => {
+      const literal = /^"([^"]*)"$/.exec(side);
+      if (literal) return literal[1];
+      if (!VAR_PATH.test(side)) {
+        throw new TemplateError(`Invalid expression "${expr}"`);
+      }
+      return String(lookup(scope, side) ?? "");
+    };
+    const equal = operand(compare[1]) === operand(compare[3]);
+    return compare[2] === "==" ? equal : !equal;
+  }
+
+  if (expr.startsWith("!")) return !evaluate(expr.slice(1).trim(), scope);
+
+  if (!VAR_PATH.test(expr)) {
+    throw new TemplateError(`Invalid expression "${expr}"`);
+  }
+
+  const value = lookup(scope, expr);
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: Node[], scope: Scope, file?: string): string {
+  let out = "";
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      out += node.value;
+    } else if (node.type === "var") {
+      const value = lookup(scope, node.path);
+      if (value === undefined || (typeof value === "object" && value !== null)) {
+        throw new TemplateError(
+          value === undefined
+            ? `Unknown template variable "${node.path}" (line ${node.line})`
+            : `Template variable "${node.path}" is not a string (line ${node.line})`,
+          file
+        );
+      }
+      out += String(value);
+    } else if (node.type === "if") {
+      let truthy: boolean;
+      try {
+        truthy = evaluate(node.expr, scope);
+      } catch (error) {
+        if (!(error instanceof TemplateError)) throw error;
+        throw new TemplateError(`${error.message} (line ${node.line})`, file);
+      }
+      out += renderNodes(truthy !== node.negate ? node.then : node.otherwise, scope, file);
+    } else {
+      const list = lookup(scope, node.path) ?? [];
+      if (!Array.isArray(list)) {
+        throw new TemplateError(
+          `#each expects "${node.path}" to be a list (line ${node.line})`,
+          file
+        );
+      }
+      list.forEach((item, index) => {
+        out += renderNodes(
+          node.body,
+          [
+            ...scope,
+            {
+              [node.alias]: item,
+              "@index": index,
+              "@first": index === 0,
+              "@last": index === list.length - 1,
+            },
+          ],
+          file
+        );
+      });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Render a single template string. `file` is only used to make error
+ * messages point at the template that failed.
+ */
+export function renderTemplate(
+  source: string,
+  context: TemplateContext,
+  file?: string
+): string {
+  return renderNodes(parse(source, file), [context], file);
+}
+
+export function isBinary(contents: Buffer) {
+  return contents.subarray(0, 8000).includes(0);
+}
+
+async function listFiles(dir: string, prefix = ""): Promise<string[]> {
+  const entries = await fs.readdir(path.join(dir, prefix), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) files.push(...(await listFiles(dir, rel)));
+    else if (entry.isFile()) files.push(rel);
+  }
+
+  return files;
+}
+
+/**
+ * Render every file in a template directory. Text files are run through the
+ * template engine; binary files are copied untouched. A text file that
+ * renders to nothing but whitespace is returned with empty contents so the
+ * caller can drop it, which is how templates make whole files conditional.
+ *
+ * Files under an `[app]` directory are rendered once per entry in
+ * `context.apps`, with that entry bound to `app`. The segment is replaced by
+ * the app's `entryPoint`, and dropped when the entry point is empty.
+ */
+export async function renderTemplateDir(
+  dir: string,
+  context: TemplateContext
+): Promise<TemplateFile[]> {
+  const files: TemplateFile[] = [];
+  const apps = Array.isArray(context.apps) ? context.apps : [];
+
+  for (const rel of await listFiles(dir)) {
+    const source = await fs.readFile(path.join(dir, rel));
+    const segments = rel.split("/");
+    const base = segments.pop()!;
+    segments.push(RENAMED_FILES[base] ?? base);
+
+    const targets = segments.includes(APP_SEGMENT)
+      ? apps.map((app) => {
+          const entryPoint =
+            typeof app === "object" && !Array.isArray(app)
+              ? String(app.entryPoint ?? "")
+              : "";
+          return {
+            path: segments
+              .flatMap((segment) =>
+                segment !== APP_SEGMENT ? [segment] : entryPoint ? [entryPoint] : []
+              )
+              .join("/"),
+            context: { ...context, app },
+          };
+        })
+      : [{ path: segments.join("/"), context }];
+
+    for (const target of targets) {
+      if (isBinary(source)) {
+        files.push({ path: target.path, contents: source });
+        continue;
+      }
+
+      const rendered = renderTemplate(source.toString("utf8"), target.context, rel);
+      files.push({
+        path: target.path,
+        contents: Buffer.from(
+          source.length > 0 && rendered.trim() === "" ? "" : rendered
+        ),
+      });
+    }
+  }
+
+  return files;
+}
+
+const TARBALL = /\.(tgz|tar\.gz|tar)$/i;
+
+/**
+ * Resolve a `--template` argument to a directory on disk. Tarballs are
+ * extracted to a temporary directory; call `cleanup` once rendering is done.
+ */
+export async function resolveTemplateSource(
+  spec: string,
+  cwd: string
+): Promise<{ dir: string; cleanup: () => Promise<void> }> {
+  const source = path.resolve(cwd, spec);
+  const stat = await fs.stat(source).catch(() => null);
+
+  if (!stat) {
+    throw new TemplateError(`Template not found: ${source}`);
+  }
+
+  if (stat.isDirectory()) {
+    return { dir: source, cleanup: async () => {} };
+  }
+
+  if (!TARBALL.test(source)) {
+    throw new TemplateError(
+      `Template must be a directory or a .tgz, .tar.gz or .tar file: ${source}`
+    );
+  }
+
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-template-"));
+  const cleanup = () => fs.remove(tmp);
+
+  try {
+    await tar.x({ file: source, cwd: tmp });
+  } catch (error) {
+    await cleanup();
+    throw new TemplateError(
+      `Could not extract template ${source}: ${(error as Error).message}`
+    );
+  }
+
+  // `npm pack` and GitHub archives wrap everything in one top-level folder
+  const entries = await fs.readdir(tmp, { withFileTypes: true });
+  const dir =
+    entries.length === 1 && entries[0].isDirectory()
+      ? path.join(tmp, entries[0].name)
+      : tmp;
+
+  return { dir, cleanup };
+}
@@ -0,0 +1,36 @@
+export type PackageManager = "npm" | "pnpm" | "yarn" | "bun";
+
+export type Styling = "css" | "css-modules" | "tailwind";
+
+export type RoutePreset = "mixed" | "ssr" | "streaming" | "static" | "client";
+
+export type Deploy = "none" | "docker";
+
+export type ProjectConfig = {
+  /** `name` in package.json, valid under npm's naming rules */
+  packageName: string;
+  /** Directory to scaffold into, relative to the working directory */
+  targetDir: string;
+  packageManager: PackageManager;
+  /** Exact version written to package.json `packageManager`, when known */
+  packageManagerVersion?: string;
+  installDeps: boolean;
+  /** Lint and smoke-boot the project once dependencies are installed */
+  verify: boolean;
+  /** Initialise a git repository with an initial commit */
+  git: boolean;
+  /** `@taujs/server` version whose tested dependency set is pinned */
+  taujsVersion: string;
+  /** App IDs composed on the one server; the first is served from `/` */
+  apps: string[];
+  /** Which routes each app starts with, and how they render */
+  routePreset: RoutePreset;
+  /** How the demo UI is styled */
+  styling: Styling;
+  /** Deployment artifacts generated alongside the app */
+  deploy: Deploy;
+  /** Local directory or tarball rendered over the built-in template */
+  template?: string;
+  /** Overwrite conflicting files in a non-empty target without asking */
+  force: boolean;
+};
@@ -0,0 +1,288 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+
+import { name, version } from "../package.json";
+import { nodeCommandRunner, type CommandRunner } from "./commands";
+import { renderProjectFiles } from "./generate";
+import {
+  MANIFEST_FILE,
+  hashContents,
+  type ProjectManifest,
+} from "./manifest";
+import { mergeText } from "./merge";
+import { BUILTIN_TEMPLATE_DIR, isBinary, resolveTemplateSource } from "./templates";
+import type { ProjectConfig } from "./types";
+import {
+  SCAFFOLDER_COMPATIBILITY,
+  TAUJS_RELEASES,
+  resolveTaujsVersion,
+} from "./versions";
+
+/**
+ * Bring a generated project up to the templates of this create-taujs
+ * release.
+ *
+ * The manifest written at scaffold time says which release rendered the
+ * project, with which options, and what each file looked like. The project
+ * is rendered again for this release and, for the original "base", for the
+ * recorded one; each file the user has edited is then three-way merged, so
+ * template changes land without overwriting local edits.
+ */
+
+export class UpgradeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UpgradeError";
+  }
+}
+
+export type UpgradeAction =
+  /** Unedited locally, so replaced with the new template */
+  | "updated"
+  /** Edited locally and merged with the template's changes */
+  | "merged"
+  /** Edited locally in the same places the template changed */
+  | "conflict"
+  /** New in the template */
+  | "added"
+  /** Dropped from the template and unedited locally */
+  | "removed"
+  /** Left alone although the template changed it; see `reason` */
+  | "kept";
+
+export type UpgradeFile = {
+  path: string;
+  action: UpgradeAction;
+  reason?: string;
+};
+
+export type UpgradeResult = {
+  /** create-taujs release the project was rendered with */
+  from: string;
+  to: string;
+  taujsVersion: { from: string; to: string };
+  /** Files that change or need attention, sorted by path */
+  files: UpgradeFile[];
+  /** Files left with conflict markers to resolve by hand */
+  conflicts: string[];
+};
+
+export type UpgradeOptions = {
+  projectDir: string;
+  /** Work out and report the changes without writing anything */
+  dryRun?: boolean;
+  /** Runs `npm pack` to download the release the project was created with */
+  runCommand?: CommandRunner;
+};
+
+function isManifest(value: unknown): value is ProjectManifest {
+  const manifest = value as ProjectManifest;
+  return (
+    typeof manifest === "object" &&
+    manifest !== null &&
+    typeof manifest.version === "string" &&
+    typeof manifest.options === "object" &&
+    manifest.options !== null &&
+    Array.isArray(manifest.options.apps) &&
+    typeof manifest.files === "object" &&
+    manifest.files !== null
+  );
+}
+
+async function readManifest(projectDir: string): Promise<ProjectManifest> {
+  const file = path.join(projectDir, MANIFEST_FILE);
+  if (!(await fs.pathExists(file))) {
+    throw new UpgradeError(
+      `Cannot find ${MANIFEST_FILE}. Run this from the root of a project created with create-taujs v${version} or later.`
+    );
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    throw new UpgradeError(`${MANIFEST_FILE} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isManifest(manifest)) {
+    throw new UpgradeError(`${MANIFEST_FILE} is not a create-taujs project manifest`);
+  }
+  if (!TAUJS_RELEASES[manifest.options.taujsVersion]) {
+    throw new UpgradeError(
+      `${MANIFEST_FILE} records τjs ${manifest.options.taujsVersion}, which this create-taujs release does not know`
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Download the create-taujs release a project was created with and return
+ * its template directory.
+ */
+async function fetchReleaseTemplate(release: string, run: CommandRunner) {
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-upgrade-"));
+
+  try {
+    const output = await run(
+      "npm",
+      ["pack", `${name}@${release}`, "--pack-destination", tmp, "--silent"],
+      { cwd: tmp }
+    );
+    const tarball = path.join(tmp, output.split("\n").pop()!.trim());
+    const { dir, cleanup } = await resolveTemplateSource(tarball, tmp);
+    return {
+      dir: path.join(dir, "templates/default"),
+      cleanup: async () => {
+        await cleanup();
+        await fs.remove(tmp);
+      },
+    };
+  } catch (error) {
+    await fs.remove(tmp);
+    throw new UpgradeError(
+      `Could not download create-taujs v${release} to compare against: ${(error as Error).message}`
+    );
+  }
+}
+
+/** Keep the recorded τjs release while this create-taujs release was tested with it */
+function upgradeTaujsVersion(recorded: string) {
+  const { taujsVersion: latest } = resolveTaujsVersion(undefined, version);
+  const tested = SCAFFOLDER_COMPATIBILITY[version] ?? [latest];
+  return tested.includes(recorded) ? recorded : latest;
+}
+
+export async function upgradeProject(options: UpgradeOptions): Promise<UpgradeResult> {
+  const { projectDir, dryRun = false, runCommand = nodeCommandRunner } = options;
+  const manifest = await readManifest(projectDir);
+  const recorded = manifest.options;
+
+  const config: ProjectConfig = {
+    ...recorded,
+    targetDir: ".",
+    verify: false,
+    git: false,
+    force: false,
+  };
+  const taujsVersion = upgradeTaujsVersion(recorded.taujsVersion);
+  const rendered = await renderProjectFiles({ ...config, taujsVersion }, projectDir);
+  const latest = new Map(rendered.map((file) => [file.path, file.contents]));
+  const newManifest = latest.get(MANIFEST_FILE)!;
+  latest.delete(MANIFEST_FILE);
+
+  // The base is only needed for files changed on both sides, so the earlier
+  // release is downloaded on first use
+  let base: Map<string, Buffer> | undefined;
+  const baseContents = async (file: string) => {
+    if (!base) {
+      const release =
+        manifest.version === version
+          ? { dir: BUILTIN_TEMPLATE_DIR, cleanup: async () => {} }
+          : await fetchReleaseTemplate(manifest.version, runCommand);
+      try {
+        const files = await renderProjectFiles(config, projectDir, release.dir);
+        base = new Map(files.map((entry) => [entry.path, entry.contents]));
+      } finally {
+        await release.cleanup();
+      }
+    }
+    // A release that renders differently now (e.g. package.json, which is
+    // generated in code) is no base at all; both versions then conflict whole
+    const contents = base.get(file);
+    return contents && hashContents(contents) === manifest.files[file]
+      ? contents.toString("utf8")
+      : "";
+  };
+
+  const labels = { ours: "local", theirs: `create-taujs v${version}` };
+  const files: UpgradeFile[] = [];
+  const writes = new Map<string, Buffer | null>();
+  const paths = [...new Set([...latest.keys(), ...Object.keys(manifest.files)])].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+  for (const file of paths) {
+    const fullPath = path.join(projectDir, file);
+    const local = (await fs.pathExists(fullPath)) ? await fs.readFile(fullPath) : null;
+    const next = latest.get(file);
+    const recordedHash = manifest.files[file];
+    const localHash = local && hashContents(local);
+
+    if (next === undefined) {
+      if (!local) continue;
+      if (localHash === recordedHash) {
+        writes.set(file, null);
+        files.push({ path: file, action: "removed" });
+      } else {
+        files.push({
+          path: file,
+          action: "kept",
+          reason: "no longer generated, but edited locally",
+        });
+      }
+      continue;
+    }
+
+    const nextHash = hashContents(next);
+    if (localHash === nextHash) continue;
+
+    if (!local) {
+      if (recordedHash === undefined) {
+        writes.set(file, next);
+        files.push({ path: file, action: "added" });
+      } else if (recordedHash !== nextHash) {
+        files.push({
+          path: file,
+          action: "kept",
+          reason: "deleted locally, but changed in the template",
+        });
+      }
+      continue;
+    }
+
+    if (localHash === recordedHash) {
+      writes.set(file, next);
+      files.push({ path: file, action: "updated" });
+      continue;
+    }
+
+    // Edited locally and unchanged in the template
+    if (nextHash === recordedHash) continue;
+
+    if (isBinary(local) || isBinary(next)) {
+      files.push({
+        path: file,
+        action: "kept",
+        reason: "a binary file edited locally and changed in the template",
+      });
+      continue;
+    }
+
+    const merged = mergeText(
+      await baseContents(file),
+      local.toString("utf8"),
+      next.toString("utf8"),
+      labels
+    );
+    writes.set(file, Buffer.from(merged.text));
+    files.push({ path: file, action: merged.conflicts > 0 ? "conflict" : "merged" });
+  }
+
+  if (!dryRun) {
+    for (const [file, contents] of writes) {
+      const fullPath = path.join(projectDir, file);
+      if (contents) await fs.outputFile(fullPath, contents);
+      else await fs.remove(fullPath);
+    }
+    await fs.writeFile(path.join(projectDir, MANIFEST_FILE), newManifest);
+  }
+
+  return {
+    from: manifest.version,
+    to: version,
+    taujsVersion: { from: recorded.taujsVersion, to: taujsVersion },
+    files,
+    conflicts: files.filter((file) => file.action === "conflict").map((file) => file.path),
+  };
+}
@@ -0,0 +1,206 @@
+import net from "net";
+
+import { nodeCommandRunner, timeoutSignal, type CommandRunner } from "./commands";
+import { PACKAGE_MANAGERS } from "./package-managers";
+import type { PackageManager } from "./types";
+
+export type VerifyCheck = {
+  /** `lint`, `boot`, or `GET <path>`; `verify` when the checks could not run */
+  name: string;
+  passed: boolean;
+  /** One-line outcome, e.g. why the check failed */
+  detail: string;
+  /** Captured output of the command or server behind the check */
+  log: string;
+};
+
+export type VerifyReport = {
+  status: "passed" | "failed" | "skipped";
+  /** Why verification was skipped */
+  reason?: string;
+  checks: VerifyCheck[];
+};
+
+export type VerifyOptions = {
+  packageManager: PackageManager;
+  /** Routes to request once the server is up; each must server-render */
+  paths: string[];
+  runCommand?: CommandRunner;
+  signal?: AbortSignal;
+};
+
+const LINT_TIMEOUT_MS = 120_000;
+const BOOT_TIMEOUT_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/** Placeholders in index.html that the server replaces when it renders */
+const SSR_PLACEHOLDERS = ["<!--ssr-head-->", "<!--ssr-html-->"];
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function canConnect(port: number) {
+  return new Promise<boolean>((resolve) => {
+    const socket = net.connect({ port, host: "localhost" });
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.once("error", () => resolve(false));
+  });
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function lint(
+  dir: string,
+  { packageManager, runCommand = nodeCommandRunner, signal }: VerifyOptions
+): Promise<VerifyCheck> {
+  const [command, ...args] = `${PACKAGE_MANAGERS[packageManager].run} lint`.split(" ");
+  const timeout = timeoutSignal(LINT_TIMEOUT_MS, signal);
+  let log = "";
+
+  try {
+    await runCommand(command, args, {
+      cwd: dir,
+      signal: timeout.signal,
+      onOutput: (chunk) => (log += chunk),
+    });
+    return { name: "lint", passed: true, detail: "no type errors", log };
+  } catch (error) {
+    const detail = timeout.signal.aborted && !signal?.aborted
+      ? `timed out after ${LINT_TIMEOUT_MS / 1000}s`
+      : (error as Error).message.split("\n")[0];
+    return { name: "lint", passed: false, detail, log };
+  } finally {
+    timeout.dispose();
+  }
+}
+
+async function checkRoute(port: number, routePath: string): Promise<VerifyCheck> {
+  const name = `GET ${routePath}`;
+  const timeout = timeoutSignal(REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`http://localhost:${port}${routePath}`, {
+      signal: timeout.signal,
+    });
+    const html = await response.text();
+    const fail = (detail: string) => ({
+      name,
+      passed: false,
+      detail,
+      log: html.slice(0, 2000),
+    });
+
+    if (response.status !== 200) return fail(`responded ${response.status}`);
+    const placeholder = SSR_PLACEHOLDERS.find((marker) => html.includes(marker));
+    if (placeholder) return fail(`${placeholder} was not replaced`);
+    if (!html.includes("__INITIAL_DATA__")) {
+      return fail("no server-rendered data in the page");
+    }
+
+    return { name, passed: true, detail: `200, ${html.length} bytes`, log: "" };
+  } catch (error) {
+    const detail = timeout.signal.aborted
+      ? `no response after ${REQUEST_TIMEOUT_MS / 1000}s`
+      : (error as Error).message;
+    return { name, passed: false, detail, log: "" };
+  } finally {
+    timeout.dispose();
+  }
+}
+
+/**
+ * Start the dev server on free ports, wait for it to accept connections,
+ * request each path and stop it again.
+ */
+async function smokeBoot(
+  dir: string,
+  { paths, runCommand = nodeCommandRunner, signal }: VerifyOptions
+): Promise<VerifyCheck[]> {
+  const port = await freePort();
+  const hmrPort = await freePort();
+  const server = new AbortController();
+  const onAbort = () => server.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  let log = "";
+  let exited: string | undefined;
+
+  // Run the server entry directly rather than through the `dev` script, so
+  // there is a single process to stop and no file watcher
+  const running = runCommand(
+    process.execPath,
+    ["--import", "tsx", "src/server/index.ts"],
+    {
+      cwd: dir,
+      signal: server.signal,
+      env: { NODE_ENV: "development", PORT: String(port), HMR_PORT: String(hmrPort) },
+      onOutput: (chunk) => (log += chunk),
+    }
+  ).then(
+    () => (exited = "the server exited"),
+    (error: Error) => (exited = error.message.split("\n")[0])
+  );
+
+  try {
+    const deadline = Date.now() + BOOT_TIMEOUT_MS;
+    while (!(await canConnect(port))) {
+      if (exited !== undefined || signal?.aborted) {
+        return [{ name: "boot", passed: false, detail: exited ?? "cancelled", log }];
+      }
+      if (Date.now() > deadline) {
+        return [
+          {
+            name: "boot",
+            passed: false,
+            detail: `not listening on port ${port} after ${BOOT_TIMEOUT_MS / 1000}s`,
+            log,
+          },
+        ];
+      }
+      await delay(250);
+    }
+
+    const checks: VerifyCheck[] = [];
+    for (const routePath of paths) {
+      checks.push(await checkRoute(port, routePath));
+    }
+
+    return [
+      { name: "boot", passed: true, detail: `listening on port ${port}`, log },
+      ...checks,
+    ];
+  } finally {
+    server.abort();
+    await running;
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Check that an installed project type-checks and server-renders. Failures
+ * are reported in the result, never thrown.
+ */
+export async function verifyProject(
+  dir: string,
+  options: VerifyOptions
+): Promise<VerifyReport> {
+  const checks = [await lint(dir, options)];
+  if (!options.signal?.aborted) checks.push(...(await smokeBoot(dir, options)));
+
+  return {
+    status: checks.every((check) => check.passed) ? "passed" : "failed",
+    checks,
+  };
+}
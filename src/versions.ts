@@ -0,0 +1,119 @@
+export type DependencySet = {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  /** Packages only some projects get, e.g. for a styling strategy */
+  extras: Record<string, string>;
+};
+
+/**
+ * Exact dependency versions each τjs release was tested with, keyed by the
+ * `@taujs/server` version. Never use ranges or tags here: a project generated
+ * from a given set must install the same tree every time.
+ */
+export const TAUJS_RELEASES: Record<string, DependencySet> = {
+  "0.5.5": {
+    dependencies: {
+      "@taujs/react": "0.1.8",
+      "@taujs/server": "0.5.5",
+      fastify: "5.8.5",
+      react: "19.2.5",
+      "react-dom": "19.2.5",
+    },
+    devDependencies: {
+      "@types/node": "22.19.9",
+      "@types/react": "19.2.9",
+      "@types/react-dom": "19.2.3",
+      "@vitejs/plugin-react": "5.2.0",
+      "cross-env": "7.0.3",
+      esbuild: "0.27.7",
+      tsx: "4.21.0",
+      typescript: "5.9.3",
+      vite: "7.3.3",
+    },
+    extras: {
+      "@tailwindcss/vite": "4.3.3",
+      tailwindcss: "4.3.3",
+    },
+  },
+};
+
+/**
+ * τjs releases the templates of each create-taujs release were tested
+ * against, newest first. The first entry is the default.
+ */
+export const SCAFFOLDER_COMPATIBILITY: Record<string, string[]> = {
+  "0.1.7": ["0.5.5"],
+};
+
+export class VersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VersionError";
+  }
+}
+
+export type ResolvedVersions = {
+  taujsVersion: string;
+  /** Combinations that are known but were not tested together */
+  warnings: string[];
+};
+
+function compareVersions(a: string, b: string) {
+  const pa = a.split(".").map(Number);
+  const pb = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Pick the τjs release to scaffold against. `requested` may be an exact
+ * version or a prefix such as `0.5`, which selects the newest match.
+ *
+ * A version missing from `TAUJS_RELEASES` is refused, since there is nothing
+ * to pin its dependencies to. A known version this create-taujs release was
+ * not tested with is allowed with a warning, as is running a create-taujs
+ * release with no compatibility entry (e.g. a local build).
+ */
+export function resolveTaujsVersion(
+  requested: string | undefined,
+  scaffolderVersion: string
+): ResolvedVersions {
+  const warnings: string[] = [];
+  const known = Object.keys(TAUJS_RELEASES).sort(compareVersions).reverse();
+  let tested = SCAFFOLDER_COMPATIBILITY[scaffolderVersion];
+
+  if (!tested) {
+    const newest = Object.keys(SCAFFOLDER_COMPATIBILITY)
+      .sort(compareVersions)
+      .pop()!;
+    tested = SCAFFOLDER_COMPATIBILITY[newest];
+    warnings.push(
+      `create-taujs v${scaffolderVersion} has no compatibility entry; using the sets tested with v${newest}`
+    );
+  }
+
+  if (requested === undefined) {
+    return { taujsVersion: tested[0], warnings };
+  }
+
+  const taujsVersion = known.find(
+    (candidate) => candidate === requested || candidate.startsWith(`${requested}.`)
+  );
+
+  if (!taujsVersion) {
+    throw new VersionError(
+      `Unknown τjs version "${requested}". Known versions: ${known.join(", ")}`
+    );
+  }
+
+  if (!tested.includes(taujsVersion)) {
+    warnings.push(
+      `τjs ${taujsVersion} has not been tested with create-taujs v${scaffolderVersion} (tested: ${tested.join(", ")}). The generated project may need adjusting.`
+    );
+  }
+
+  return { taujsVersion, warnings };
+}
@@ -0,0 +1,30 @@
+{
+  path: '{{path}}',
+  attr: {
+    render: '{{render}}',
+    hydrate: true,
+{{#if serviceName}}
+{{#if render == "streaming"}}
+    // Descriptor-based data: resolved by the server
+    data: async (params) =>
+      serviceDescriptor('{{serviceName}}', '{{serviceMethod}}', {{serviceArgs}}),
+{{else}}
+    // Direct service invocation: standard SSR
+    data: async (params, ctx) => {
+      return callService(ctx, '{{serviceName}}', '{{serviceMethod}}', {{serviceArgs}});
+    },
+{{/if}}
+{{else}}
+    // Return this route's data, or call a service with callService(ctx, ...)
+    data: async (params, ctx) => {
+      return { path: '{{path}}' };
+    },
+{{/if}}
+{{#if render == "streaming"}}
+    // meta recommended for streaming routes for SEO/social and render timing
+    meta: {
+      title: '{{path}}',
+    },
+{{/if}}
+  },
+},
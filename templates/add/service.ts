@@ -0,0 +1,10 @@
+import { defineService } from '@taujs/server/config';
+
+export const {{exportName}} = defineService({
+  async get(params: { id: string }) {
+    return {
+      id: params.id,
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
@@ -0,0 +1,106 @@
+/**
+ * Production build, in three phases:
+ *
+ *   client  each app's browser bundle, with Vite  -> dist/client
+ *   ssr     each app's server render entry        -> dist/ssr
+ *   server  the Fastify server, with esbuild       -> dist/server
+{{#if multiApp}}
+ *
+ * Apps in taujs.config.ts:
+{{#each apps as app}}
+ *   {{app.appId}} -> {{app.clientDir}}
+{{/each}}
+{{/if}}
+ *
+ * With no flags every phase runs, in that order. `--client`, `--ssr` and
+ * `--server` run only the phases given; `--app <id>` limits the Vite phases
+ * to one app. The client phase starts by clearing dist/, so run it first.
+ */
+import { readFile, readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { taujsBuild } from '@taujs/server';
+import { build } from 'esbuild';
+
+import config from './taujs.config.ts';
+
+const PHASES = ['client', 'ssr', 'server'] as const;
+type Phase = (typeof PHASES)[number];
+
+const projectRoot = process.cwd();
+
+const { values } = parseArgs({
+  options: {
+    client: { type: 'boolean' },
+    ssr: { type: 'boolean' },
+    server: { type: 'boolean' },
+    // Read by taujsBuild itself
+    app: { type: 'string' },
+  },
+});
+
+const selected = PHASES.filter((phase) => values[phase]);
+const phases = selected.length > 0 ? selected : PHASES;
+
+// Everything in `dependencies` is installed next to the server in production,
+// so the server bundle imports it at runtime instead of inlining a copy
+async function serverExternals() {
+  const pkg = JSON.parse(await readFile(path.join(projectRoot, 'package.json'), 'utf8'));
+  return Object.keys(pkg.dependencies ?? {});
+}
+
+async function outputSize(target: string): Promise<number> {
+  const info = await stat(target).catch(() => null);
+  if (!info) return 0;
+  if (!info.isDirectory()) return info.size;
+
+  let total = 0;
+  for (const entry of await readdir(target)) total += await outputSize(path.join(target, entry));
+  return total;
+}
+
+const run: Record<Phase, () => Promise<void>> = {
+  client: () =>
+    taujsBuild({
+      clientBaseDir: path.resolve(projectRoot, 'src/client'),
+      config,
+      projectRoot,
+      isSSRBuild: false,
+    }),
+  ssr: () =>
+    taujsBuild({
+      clientBaseDir: path.resolve(projectRoot, 'src/client'),
+      config,
+      projectRoot,
+      isSSRBuild: true,
+    }),
+  server: async () => {
+    await build({
+      entryPoints: ['src/server/index.ts'],
+      bundle: true,
+      platform: 'node',
+      format: 'esm',
+      outfile: 'dist/server/index.js',
+      external: await serverExternals(),
+      logLevel: 'warning',
+    });
+  },
+};
+
+const outputs: Record<Phase, string> = {
+  client: 'dist/client',
+  ssr: 'dist/ssr',
+  server: 'dist/server',
+};
+
+const report: string[] = [];
+
+for (const phase of phases) {
+  const started = performance.now();
+  await run[phase]();
+  const seconds = ((performance.now() - started) / 1000).toFixed(1);
+  const kilobytes = ((await outputSize(path.join(projectRoot, outputs[phase]))) / 1024).toFixed(1);
+  report.push(`  ${phase.padEnd(6)} ${outputs[phase].padEnd(11)} ${kilobytes.padStart(8)} kB ${seconds.padStart(6)}s`);
+}
+
+console.log(`\nBuilt ${phases.join(', ')}:\n${report.join('\n')}`);
@@ -0,0 +1,15 @@
+import { Layout } from './Layout';
+import { resolvePage } from './pages';
+
+import './styles.css';
+
+/** Renders the page mapped to `location` inside the shared layout */
+export function App({ location }: { location: string }) {
+  const Page = resolvePage(location);
+
+  return (
+    <Layout>
+      <Page />
+    </Layout>
+  );
+}
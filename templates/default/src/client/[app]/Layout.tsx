@@ -0,0 +1,43 @@
+import type { ReactNode } from 'react';
+{{#if styling == "css-modules"}}
+
+import styles from './App.module.css';
+{{/if}}
+
+/** The header, navigation and footer around every page */
+export function Layout({ children }: { children: ReactNode }) {
+  return (
+    <div {{className.app}}>
+      <header {{className.header}}>
+        <h1 {{className.title}}>τjs - Composing systems, not just apps</h1>
+        <p {{className.subtitle}}>
+          Request-first application composition with explicit per-route rendering control.
+        </p>
+        <nav {{className.nav}}>
+{{#each app.routes as route}}
+          <a href="{{route.path}}">{{route.title}}</a>
+{{/each}}
+        </nav>
+      </header>
+
+      {children}
+
+      <footer {{className.footer}}>
+        <p>
+          Built with{" "}
+          <a href="https://taujs.dev" target="_blank" rel="noopener">
+            τjs
+          </a>
+          {" · "}
+          <a href="https://fastify.dev" target="_blank" rel="noopener">
+            Fastify
+          </a>
+          {" · "}
+          <a href="https://react.dev" target="_blank" rel="noopener">
+            React
+          </a>
+        </p>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+{{#if styling == "css-modules"}}
+import styles from '../App.module.css';
+
+{{/if}}
+export type Greeting = {
+  message: string;
+  timestamp: string;
+};
+
+export function GreetingCard({ message, timestamp }: Greeting) {
+  return (
+    <section {{className.card}}>
+      <p {{className.cardMessage}}>{message}</p>
+      <p {{className.cardMeta}}>
+        Generated at: {new Date(timestamp).toLocaleString()}
+      </p>
+    </section>
+  );
+}
+{{#if routePreset == "mixed" || routePreset == "streaming"}}
+
+/** Shown by a `<Suspense>` boundary while streamed data resolves */
+export function GreetingFallback() {
+  return (
+    <section {{className.card}}>
+      <p {{className.cardMessage}}>Loading greeting…</p>
+      <p {{className.cardMeta}}>Streaming data from the server.</p>
+    </section>
+  );
+}
+{{/if}}
@@ -0,0 +1,8 @@
+import { hydrateApp } from '@taujs/react';
+import { App } from './App';
+
+hydrateApp({
+  appComponent: <App location={window.location.pathname} />,
+  rootElementId: 'root',
+  enableDebug: import.meta.env.DEV,
+});
@@ -0,0 +1,34 @@
+{{#if app.pages.ClientPage}}
+import { useState } from 'react';
+
+import { type Greeting, GreetingCard } from '../components/GreetingCard';
+{{#if styling == "css-modules"}}
+import styles from '../App.module.css';
+{{/if}}
+
+// Client-rendered routes get no data from the server, so the browser makes its own
+function clientGreeting(): Greeting {
+  return {
+    message: 'Hello, client. Rendered in the browser, with no server data.',
+    timestamp: new Date().toISOString(),
+  };
+}
+
+export function ClientPage() {
+  const [greeting] = useState(clientGreeting);
+
+  return (
+    <>
+      <GreetingCard {...greeting} />
+
+      <section {{className.tip}}>
+        <p>
+          <strong>CLIENT:</strong> This route is not in <code>taujs.config.ts</code>, so the server
+          sends the empty HTML shell and the browser renders the page. It costs the server nothing
+          to render, but shows nothing until the JavaScript has loaded and gets no server data.
+        </p>
+      </section>
+    </>
+  );
+}
+{{/if}}
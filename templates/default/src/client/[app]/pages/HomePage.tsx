@@ -0,0 +1,100 @@
+{{#if routePreset == "streaming"}}
+import { Suspense } from 'react';
+{{/if}}
+import { useSSRStore } from '@taujs/react';
+
+import type { RouteData } from '@server/route-data';
+
+import { GreetingCard{{#if routePreset == "streaming"}}, GreetingFallback{{/if}} } from '../components/GreetingCard';
+{{#if styling == "css-modules"}}
+import styles from '../App.module.css';
+{{/if}}
+
+/** What the `{{app.homePath}}` route's `data` in taujs.config.ts resolves to */
+export type HomePageData = RouteData<'{{app.homePath}}'>;
+
+{{#if routePreset == "streaming"}}
+function Greeting() {
+  const data = useSSRStore<HomePageData>();
+
+  return <GreetingCard {...data} />;
+}
+
+export function HomePage() {
+  return (
+    <>
+      <Suspense fallback={<GreetingFallback />}>
+        <Greeting />
+      </Suspense>
+{{else}}
+export function HomePage() {
+  const data = useSSRStore<HomePageData>();
+
+  return (
+    <>
+      <GreetingCard {...data} />
+{{/if}}
+
+      <section {{className.section}}>
+        <h2 {{className.sectionTitle}}>Quick start</h2>
+        <ul {{className.list}}>
+          <li>Edit <code>{{app.clientDir}}/pages/HomePage.tsx</code> to change this page, or <code>Layout.tsx</code> for what every page shares.</li>
+          <li>
+            Add a page in <code>{{app.clientDir}}/pages/</code>, map its path in <code>pages/index.ts</code>
+            {" "}and add its route to <code>taujs.config.ts</code>.
+          </li>
+{{#if styling == "tailwind"}}
+          <li>Style with Tailwind utility classes; theme colours live in <code>{{app.clientDir}}/styles.css</code>.</li>
+{{else}}
+{{#if styling == "css-modules"}}
+          <li>Adjust styles in <code>{{app.clientDir}}/App.module.css</code>, and global ones in <code>styles.css</code>.</li>
+{{else}}
+          <li>Adjust styles in <code>{{app.clientDir}}/styles.css</code>.</li>
+{{/if}}
+{{/if}}
+          <li>
+            Visit{" "}
+{{#each app.routes as route}}
+            <a href="{{route.path}}">{{route.path}}</a> for {{route.label}}{{#if @last}}.{{else}} and{" "}{{/if}}
+{{/each}}
+          </li>
+{{#if multiApp}}
+          <li>
+            Other apps on this server:{" "}
+{{#each apps as other}}
+{{#if other.appId != app.appId}}
+            <a href="{{other.homePath}}">{{other.appId}}</a>{" "}
+{{/if}}
+{{/each}}
+          </li>
+{{/if}}
+          <li>Further information can be found at <a href="http://taujs.dev" target="_blank">τjs Documentation and Guides</a>.</li>
+        </ul>
+      </section>
+
+      <section {{className.tip}}>
+{{#if routePreset == "streaming"}}
+        <p>
+          <strong>STREAM:</strong> The <code>{{app.homePath}}</code> route uses a service descriptor
+          and returns a Promise. The <code>&lt;Suspense&gt;</code> boundary above shows
+          a fallback while the server resolves it, then progressively streams the final content.
+        </p>
+{{else}}
+{{#if routePreset == "static"}}
+        <p>
+          <strong>STATIC:</strong> The <code>{{app.homePath}}</code> route is rendered on the server with
+          {" "}<code>hydrate: false</code>, so no client JavaScript is sent. Pages load fast and cache
+          well, but nothing on them is interactive.
+        </p>
+{{else}}
+        <p>
+          <strong>SSR:</strong> The <code>{{app.homePath}}</code> route resolves all data on the server
+          before sending HTML. You get a complete, fully rendered document on first byte,
+          which is ideal for predictable latency and caching.
+        </p>
+{{/if}}
+{{/if}}
+      </section>
+    </>
+  );
+}
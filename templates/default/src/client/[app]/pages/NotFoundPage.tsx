@@ -0,0 +1,16 @@
+{{#if styling == "css-modules"}}
+import styles from '../App.module.css';
+
+{{/if}}
+/** Rendered for any path with no entry in pages/index.ts */
+export function NotFoundPage() {
+  return (
+    <section {{className.section}}>
+      <h2 {{className.sectionTitle}}>Page not found</h2>
+      <p>
+        Nothing is mapped to this path in <code>{{app.clientDir}}/pages/index.ts</code>.{" "}
+        <a href="{{app.homePath}}">Back to the home page</a>
+      </p>
+    </section>
+  );
+}
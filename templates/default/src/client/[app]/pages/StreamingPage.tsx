@@ -0,0 +1,38 @@
+{{#if app.pages.StreamingPage}}
+import { Suspense } from 'react';
+import { useSSRStore } from '@taujs/react';
+
+import type { RouteData } from '@server/route-data';
+
+import { GreetingCard, GreetingFallback } from '../components/GreetingCard';
+{{#if styling == "css-modules"}}
+import styles from '../App.module.css';
+{{/if}}
+
+/** What the `{{app.pages.StreamingPage}}` route's service descriptor in taujs.config.ts resolves to */
+export type StreamingPageData = RouteData<'{{app.pages.StreamingPage}}'>;
+
+function Greeting() {
+  const data = useSSRStore<StreamingPageData>();
+
+  return <GreetingCard {...data} />;
+}
+
+export function StreamingPage() {
+  return (
+    <>
+      <Suspense fallback={<GreetingFallback />}>
+        <Greeting />
+      </Suspense>
+
+      <section {{className.tip}}>
+        <p>
+          <strong>STREAM:</strong> This route uses a service descriptor and returns a Promise.
+          The <code>&lt;Suspense&gt;</code> boundary above shows a fallback while the server
+          resolves it, then progressively streams the final content.
+        </p>
+      </section>
+    </>
+  );
+}
+{{/if}}
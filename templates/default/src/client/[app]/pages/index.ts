@@ -0,0 +1,25 @@
+import type { ComponentType } from 'react';
+
+{{#each app.routes as route}}
+import { {{route.page}} } from './{{route.page}}';
+{{/each}}
+import { NotFoundPage } from './NotFoundPage';
+
+/**
+ * The page rendered for each path, on the server and in the browser.
+ *
+ * To add a page, create it in this directory, map its path here and, unless
+ * it is only rendered in the browser, add a route for it to taujs.config.ts.
+ */
+export const pages: Record<string, ComponentType> = {
+{{#each app.routes as route}}
+  '{{route.path}}': {{route.page}},
+{{/each}}
+};
+
+/** The page for a URL, ignoring its query string, hash and any trailing slash */
+export function resolvePage(location: string): ComponentType {
+  const path = location.split(/[?#]/)[0].replace(/(.)\/+$/, '$1');
+
+  return pages[path] ?? NotFoundPage;
+}
@@ -0,0 +1,96 @@
+import { existsSync } from 'node:fs';
+
+/**
+ * Server settings, read from the environment once at startup and validated.
+ * Every variable is listed in .env.example; copy it to .env to override any
+ * of them locally.
+ *
+ * To add one, declare it on `Env`, read it in `parseEnv` and document it in
+ * .env.example. Reading it without a fallback makes it required.
+ */
+export type Env = {
+  NODE_ENV: 'development' | 'production' | 'test';
+  HOST: string;
+  PORT: number;
+  HMR_PORT: number;
+  LOG_LEVEL: LogLevel;
+  LOG_FORMAT: 'pretty' | 'json';
+  SHUTDOWN_TIMEOUT_MS: number;
+  GREETING_DELAY_MS: number;
+};
+
+export const LOG_LEVELS = ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export class EnvError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid environment:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'EnvError';
+  }
+}
+
+/** Reads every setting from `source`, reporting all problems at once */
+export function parseEnv(source: Record<string, string | undefined>): Env {
+  const problems: string[] = [];
+
+  const string = (name: string, fallback?: string) => {
+    const value = source[name]?.trim();
+    if (value) return value;
+    if (fallback === undefined) problems.push(`${name} is required but not set`);
+    return fallback ?? '';
+  };
+
+  const integer = (name: string, fallback: number, min: number, max: number) => {
+    const raw = string(name, String(fallback));
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      problems.push(`${name} must be a whole number from ${min} to ${max}, got "${raw}"`);
+    }
+    return value;
+  };
+
+  const oneOf = <T extends string>(name: string, allowed: readonly T[], fallback: T) => {
+    const value = string(name, fallback);
+    if (!allowed.includes(value as T)) {
+      problems.push(`${name} must be one of ${allowed.join(', ')}, got "${value}"`);
+    }
+    return value as T;
+  };
+
+  const NODE_ENV = oneOf('NODE_ENV', ['development', 'production', 'test'], 'development');
+  const env: Env = {
+    NODE_ENV,
+{{#if deploy == "docker"}}
+    // Production binds every interface so a container's published port reaches it
+    HOST: string('HOST', NODE_ENV === 'production' ? '0.0.0.0' : 'localhost'),
+{{else}}
+    HOST: string('HOST', 'localhost'),
+{{/if}}
+    PORT: integer('PORT', 5173, 1, 65535),
+    HMR_PORT: integer('HMR_PORT', 5174, 1, 65535),
+    LOG_LEVEL: oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+    LOG_FORMAT: oneOf('LOG_FORMAT', ['pretty', 'json'], NODE_ENV === 'production' ? 'json' : 'pretty'),
+    SHUTDOWN_TIMEOUT_MS: integer('SHUTDOWN_TIMEOUT_MS', 8000, 0, 600_000),
+    GREETING_DELAY_MS: integer('GREETING_DELAY_MS', 750, 0, 60_000),
+  };
+
+  if (problems.length > 0) throw new EnvError(problems);
+  return env;
+}
+
+function loadEnv(): Env {
+  // Variables already set in the environment win over the file
+  if (existsSync('.env')) process.loadEnvFile('.env');
+
+  try {
+    return parseEnv(process.env);
+  } catch (error) {
+    if (!(error instanceof EnvError)) throw error;
+    console.error(`${error.message}\n\nSee .env.example for the variables the server reads.`);
+    process.exit(1);
+  }
+}
+
+export const env = loadEnv();
+
+export const isDev = env.NODE_ENV !== 'production';
@@ -0,0 +1,58 @@
+import type { FastifyInstance } from 'fastify';
+
+import { serviceRegistry } from './services/registry.ts';
+import { isShuttingDown } from './shutdown.ts';
+
+const CHECK_TIMEOUT_MS = 2000;
+
+type ReadinessCheck = (signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * What /readyz checks, by name. A check resolves when what it covers can
+ * serve traffic and throws when it cannot; one still running after
+ * CHECK_TIMEOUT_MS fails. Add one for each database, cache or upstream API
+ * your services depend on.
+ */
+export const readinessChecks: Record<string, ReadinessCheck> = {
+  example: (signal) => serviceRegistry.example.getData({ id: 'readyz' }, { signal }),
+};
+
+async function runCheck(check: ReadinessCheck): Promise<string> {
+  const signal = AbortSignal.timeout(CHECK_TIMEOUT_MS);
+  const timedOut = new Promise<never>((_, reject) =>
+    signal.addEventListener('abort', () =>
+      reject(new Error(`timed out after ${CHECK_TIMEOUT_MS}ms`))
+    )
+  );
+
+  try {
+    await Promise.race([check(signal), timedOut]);
+    return 'ok';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * GET /healthz answers as long as the process can serve requests at all,
+ * for liveness probes; it checks nothing else, so a failing dependency never
+ * gets the server restarted. GET /readyz runs `readinessChecks` and answers
+ * 503 when any fails or the server is shutting down, for readiness probes
+ * and load balancers.
+ */
+export function registerHealthRoutes(app: FastifyInstance) {
+  app.get('/healthz', async () => ({ status: 'ok', uptime: Math.round(process.uptime()) }));
+
+  app.get('/readyz', async (_request, reply) => {
+    if (isShuttingDown()) return reply.code(503).send({ status: 'shutting down' });
+
+    const results = await Promise.all(
+      Object.entries(readinessChecks).map(async ([name, check]) => [name, await runCheck(check)])
+    );
+    const ready = results.every(([, result]) => result === 'ok');
+
+    return reply
+      .code(ready ? 200 : 503)
+      .send({ status: ready ? 'ready' : 'unavailable', checks: Object.fromEntries(results) });
+  });
+}
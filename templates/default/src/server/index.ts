@@ -0,0 +1,28 @@
+import { createServer } from '@taujs/server';
+import Fastify from 'fastify';
+import config from '../../taujs.config.ts';
+import { env, isDev } from './env.ts';
+import { registerHealthRoutes } from './health.ts';
+import { loggerOptions } from './logger.ts';
+import { serviceRegistry } from './services/registry.ts';
+import { handleShutdown } from './shutdown.ts';
+
+const app = Fastify({ logger: loggerOptions() });
+
+registerHealthRoutes(app);
+
+// τjs registers its routes on `app` and logs through its logger
+const { net } = await createServer({
+  config,
+  fastify: app,
+  serviceRegistry,
+  debug: isDev ? { ssr: true } : false,
+});
+
+handleShutdown(app, env.SHUTDOWN_TIMEOUT_MS);
+
+// net is config.server (host and port from env.ts), unless overridden by CLI flags
+await app.listen({
+  host: net.host,
+  port: net.port,
+});
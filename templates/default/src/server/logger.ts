@@ -0,0 +1,63 @@
+import type { FastifyServerOptions } from 'fastify';
+
+import { env } from './env.ts';
+
+/**
+ * Fastify's logger writes one JSON object per line, which is what log
+ * collectors expect. With LOG_FORMAT=pretty, the default outside production,
+ * each line is rewritten for reading in a terminal instead. τjs logs through
+ * the same logger.
+ */
+export function loggerOptions(): FastifyServerOptions['logger'] {
+  if (env.LOG_FORMAT === 'json') return { level: env.LOG_LEVEL };
+
+  return {
+    level: env.LOG_LEVEL,
+    stream: { write: (line: string) => process.stdout.write(prettyLine(line)) },
+  };
+}
+
+const GREY = '\x1b[90m';
+const RESET = '\x1b[0m';
+
+const LEVELS: Record<number, [label: string, colour: string]> = {
+  10: ['TRACE', GREY],
+  20: ['DEBUG', '\x1b[36m'],
+  30: ['INFO', '\x1b[32m'],
+  40: ['WARN', '\x1b[33m'],
+  50: ['ERROR', '\x1b[31m'],
+  60: ['FATAL', '\x1b[35m'],
+};
+
+function prettyLine(line: string): string {
+  let entry: Record<string, unknown>;
+  try {
+    entry = JSON.parse(line);
+  } catch {
+    return line;
+  }
+
+  const { level, time, msg, pid, hostname, req, res, responseTime, err, ...rest } = entry;
+  const [label, colour] = LEVELS[level as number] ?? ['LOG', ''];
+  const details = Object.entries(rest).map(
+    ([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+  );
+
+  // Fastify's request logs carry the whole request and response
+  if (req && typeof req === 'object') {
+    const { method, url } = req as { method?: string; url?: string };
+    details.unshift(`${method} ${url}`);
+  }
+  if (res && typeof res === 'object') {
+    details.push(`status=${(res as { statusCode?: number }).statusCode}`);
+  }
+  if (typeof responseTime === 'number') details.push(`${Math.round(responseTime)}ms`);
+
+  const stack =
+    err && typeof err === 'object' && 'stack' in err ? `\n${String(err.stack)}` : '';
+  const timestamp = new Date(typeof time === 'number' ? time : Date.now()).toTimeString().slice(0, 8);
+
+  return `${GREY}${timestamp}${RESET} ${colour}${label.padEnd(5)}${RESET} ${msg ?? ''}${
+    details.length > 0 ? ` ${GREY}${details.join(' ')}${RESET}` : ''
+  }${stack}\n`;
+}
@@ -0,0 +1,60 @@
+import type { RegistryCaller, RouteData as ConfigRouteData } from '@taujs/server/config';
+
+import type config from '../../taujs.config.ts';
+import type { ServiceRegistry } from './services/registry.ts';
+
+type ServiceName = keyof ServiceRegistry & string;
+type MethodName<S extends ServiceName> = keyof ServiceRegistry[S] & string;
+type CallArgs = Parameters<RegistryCaller>[2];
+
+/** The params `serviceRegistry[S][M]` takes */
+export type ServiceParams<S extends ServiceName, M extends MethodName<S>> =
+  ServiceRegistry[S][M] extends (params: infer P, ...rest: any[]) => unknown ? P : never;
+
+/** What `serviceRegistry[S][M]` resolves to */
+export type ServiceResult<S extends ServiceName, M extends MethodName<S>> =
+  ServiceRegistry[S][M] extends (...args: any[]) => Promise<infer R> ? R : never;
+
+declare const resolvesTo: unique symbol;
+
+/** A service descriptor that remembers the type of what the server resolves it to */
+export type TypedServiceDescriptor<R> = {
+  serviceName: string;
+  serviceMethod: string;
+  args?: CallArgs;
+  readonly [resolvesTo]?: R;
+};
+
+/**
+ * Calls a service from a route's `data` handler. Unlike `ctx.call`, the
+ * params are checked and the result keeps the method's return type.
+ */
+export function callService<S extends ServiceName, M extends MethodName<S>>(
+  ctx: { call: RegistryCaller },
+  serviceName: S,
+  methodName: M,
+  params: ServiceParams<S, M>
+): Promise<ServiceResult<S, M>> {
+  return ctx.call(serviceName, methodName, params as CallArgs) as Promise<ServiceResult<S, M>>;
+}
+
+/**
+ * Describes a service call for a streaming route's `data`; the server
+ * resolves it after sending the shell.
+ */
+export function serviceDescriptor<S extends ServiceName, M extends MethodName<S>>(
+  serviceName: S,
+  serviceMethod: M,
+  params: ServiceParams<S, M>
+): TypedServiceDescriptor<ServiceResult<S, M>> {
+  return { serviceName, serviceMethod, args: params as CallArgs };
+}
+
+type Resolved<D> = D extends { serviceName: string; readonly [resolvesTo]?: infer R } ? R : D;
+
+/**
+ * What `useSSRStore` returns on the page rendered for `path`, inferred from
+ * that route's `data` in taujs.config.ts. A page typed with it stops
+ * compiling when the service behind its route changes shape.
+ */
+export type RouteData<Path extends string> = Resolved<ConfigRouteData<typeof config, Path>>;
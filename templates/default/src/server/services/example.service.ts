@@ -0,0 +1,28 @@
+import { defineService } from '@taujs/server/config';
+
+import { env } from '../env.ts';
+
+export const exampleService = defineService({
+  async greet(params: { name: string }) {
+    // Simulate async operation
+    await new Promise((resolve) => setTimeout(resolve, env.GREETING_DELAY_MS));
+
+    const modeDescription =
+      params.name === 'Streaming'
+        ? 'via service descriptors.'
+        : 'via direct ctx.call.';
+
+    return {
+      message: `Hello, ${params.name}. Response provided by a τjs service ${modeDescription}`,
+      timestamp: new Date().toISOString(),
+    };
+  },
+
+  async getData(params: { id: string }) {
+    return {
+      id: params.id,
+      data: 'Example data from service',
+      timestamp: new Date().toISOString(),
+    };
+  },
+});
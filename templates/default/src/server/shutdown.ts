@@ -0,0 +1,44 @@
+import type { FastifyInstance } from 'fastify';
+
+let shuttingDown = false;
+
+/** True from the first SIGTERM or SIGINT; /readyz then answers 503 */
+export const isShuttingDown = () => shuttingDown;
+
+/**
+ * Shut down on SIGTERM or SIGINT without cutting off requests: the server
+ * stops accepting connections and waits for in-flight requests, streaming
+ * responses included, before the process exits. Connections still open
+ * after `timeoutMs`, or when a second signal arrives, are closed and the
+ * process exits with code 1.
+ */
+export function handleShutdown(app: FastifyInstance, timeoutMs: number) {
+  const forceExit = (reason: string) => {
+    app.log.error(reason);
+    app.server.closeAllConnections();
+    process.exit(1);
+  };
+
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (shuttingDown) return forceExit(`Received ${signal} again; closing open connections`);
+    shuttingDown = true;
+    app.log.info(`Received ${signal}; finishing in-flight requests`);
+
+    setTimeout(
+      () => forceExit(`Requests still running after ${timeoutMs}ms; closing their connections`),
+      timeoutMs
+    ).unref();
+
+    try {
+      await app.close();
+      app.log.info('Server stopped');
+      process.exit(0);
+    } catch (error) {
+      app.log.error({ err: error }, 'Shutdown failed');
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
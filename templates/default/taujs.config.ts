@@ -0,0 +1,87 @@
+import { defineConfig } from '@taujs/server/config';
+{{#if styling == "tailwind"}}
+import tailwindcss from '@tailwindcss/vite';
+{{/if}}
+
+import { env } from './src/server/env.ts';
+{{#if routePreset == "mixed"}}
+import { callService, serviceDescriptor } from './src/server/route-data.ts';
+{{else}}
+{{#if routePreset == "streaming"}}
+import { serviceDescriptor } from './src/server/route-data.ts';
+{{else}}
+import { callService } from './src/server/route-data.ts';
+{{/if}}
+{{/if}}
+
+export default defineConfig({
+  server: {
+    port: env.PORT,
+    host: env.HOST,
+    hmrPort: env.HMR_PORT,
+  },
+  apps: [
+{{#each apps as app}}
+    {
+      appId: '{{app.appId}}',
+      entryPoint: '{{app.entryPoint}}',
+{{#if styling == "tailwind"}}
+      plugins: [tailwindcss()],
+{{/if}}
+      routes: [
+{{#each app.routes as route}}
+{{#if route.kind == "ssr"}}
+        {
+          path: '{{route.path}}',
+          attr: {
+            render: 'ssr',
+            hydrate: true,
+            // Direct service invocation: standard SSR. callService types the
+            // result, which the page reads back through RouteData.
+            data: async (params, ctx) => {
+              return callService(ctx, 'example', 'greet', { name: 'SSR' });
+            },
+          },
+        },
+{{/if}}
+{{#if route.kind == "static"}}
+        {
+          path: '{{route.path}}',
+          attr: {
+            render: 'ssr',
+            // No client bundle is sent: the HTML is final and cacheable
+            hydrate: false,
+            data: async (params, ctx) => {
+              return callService(ctx, 'example', 'greet', { name: 'Static' });
+            },
+          },
+        },
+{{/if}}
+{{#if route.kind == "streaming"}}
+        {
+          path: '{{route.path}}',
+          attr: {
+            render: 'streaming',
+            hydrate: true,
+            // Descriptor-based data: resolved by the server
+            data: async (params) =>
+              serviceDescriptor('example', 'greet', { name: 'Streaming' }),
+            // meta recommended for streaming routes for SEO/social and render timing
+            meta: {
+              title: "τjs — Streaming",
+              description:
+                "Streaming SSR route (Suspense progressively reveals content).",
+            },
+          },
+        },
+{{/if}}
+{{#if route.kind == "client"}}
+        // {{route.path}} is deliberately not listed: paths without a route are
+        // answered with this app's HTML shell and rendered in the browser.
+{{/if}}
+{{/each}}
+      ],
+    },
+{{/each}}
+  ],
+});
@@ -0,0 +1,157 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { AddError, addRoute, addService } from "../src/add";
+import { createProject, type CreateProjectOptions } from "../src/create";
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-add-"));
+});
+
+afterEach(async () => {
+  await fs.remove(workDir);
+});
+
+async function scaffold(options: Pick<CreateProjectOptions, "apps" | "routePreset"> = {}) {
+  const { targetDir } = await createProject({
+    targetDir: "app",
+    ...options,
+    cwd: workDir,
+    installDeps: false,
+    git: false,
+  });
+  return targetDir;
+}
+
+const read = (projectDir: string, file: string) =>
+  fs.readFile(path.join(projectDir, file), "utf8");
+
+describe("addService", () => {
+  it("creates the service and registers it", async () => {
+    const projectDir = await scaffold();
+
+    expect(await addService(projectDir, "order-history")).toEqual({
+      created: ["src/server/services/order-history.service.ts"],
+      updated: ["src/server/services/registry.ts"],
+    });
+
+    const registry = await read(projectDir, "src/server/services/registry.ts");
+    expect(registry).toContain(
+      "import { orderHistoryService } from './order-history.service.ts';"
+    );
+    expect(registry).toMatch(/^ {2}orderHistory: orderHistoryService,$/m);
+    expect(await read(projectDir, "src/server/services/order-history.service.ts")).toContain(
+      "export const orderHistoryService = defineService({"
+    );
+  });
+
+  it("refuses a service that already exists", async () => {
+    const projectDir = await scaffold();
+    await addService(projectDir, "orders");
+    const registry = await read(projectDir, "src/server/services/registry.ts");
+
+    await expect(addService(projectDir, "orders")).rejects.toThrow(
+      new AddError("src/server/services/orders.service.ts already exists")
+    );
+    expect(await read(projectDir, "src/server/services/registry.ts")).toBe(registry);
+  });
+
+  it("refuses a name the registry already uses", async () => {
+    const projectDir = await scaffold();
+    await fs.remove(path.join(projectDir, "src/server/services/example.service.ts"));
+
+    await expect(addService(projectDir, "example")).rejects.toThrow(
+      new AddError('A service named "example" is already registered')
+    );
+  });
+
+  it("leaves a registry it does not recognise untouched", async () => {
+    const projectDir = await scaffold();
+    const registryFile = path.join(projectDir, "src/server/services/registry.ts");
+    const registry = (await fs.readFile(registryFile, "utf8")).replace(
+      /defineServiceRegistry\(\{/,
+      "defineServiceRegistry({\n  ...sharedServices,"
+    );
+    await fs.writeFile(registryFile, registry);
+
+    await expect(addService(projectDir, "orders")).rejects.toThrow(
+      /does not recognise \("\.\.\.sharedServices,"\)/
+    );
+    expect(await fs.readFile(registryFile, "utf8")).toBe(registry);
+    expect(await fs.pathExists(path.join(projectDir, "src/server/services/orders.service.ts"))).toBe(
+      false
+    );
+  });
+});
+
+describe("addRoute", () => {
+  it("appends the route to the app its path belongs to", async () => {
+    const projectDir = await scaffold({ apps: ["shop", "admin"] });
+
+    expect(await addRoute(projectDir, { path: "/admin/users" })).toEqual({
+      appId: "admin",
+      created: [],
+      updated: ["taujs.config.ts"],
+    });
+
+    const config = await read(projectDir, "taujs.config.ts");
+    const admin = config.slice(config.indexOf("appId: 'admin'"));
+    expect(admin).toContain("path: '/admin/users',");
+    expect(admin.indexOf("path: '/admin/users'")).toBeLessThan(admin.indexOf("]"));
+    expect(config.slice(0, config.indexOf("appId: 'admin'"))).not.toContain("/admin/users");
+  });
+
+  it("refuses a path that already has a route", async () => {
+    const projectDir = await scaffold();
+
+    await expect(addRoute(projectDir, { path: "/streaming" })).rejects.toThrow(
+      new AddError("A route for /streaming already exists in taujs.config.ts")
+    );
+  });
+
+  it("leaves a config whose routes are not an inline array untouched", async () => {
+    const projectDir = await scaffold();
+    const configFile = path.join(projectDir, "taujs.config.ts");
+    const config = (await fs.readFile(configFile, "utf8")).replace(
+      "routes: [",
+      "routes: appRoutes,\n      unused: ["
+    );
+    await fs.writeFile(configFile, config);
+
+    await expect(addRoute(projectDir, { path: "/orders" })).rejects.toThrow(
+      /Could not find a routes: \[ \.\.\. \] array for app "main"/
+    );
+    expect(await fs.readFile(configFile, "utf8")).toBe(config);
+  });
+
+  it("calls the service with the path params through callService", async () => {
+    const projectDir = await scaffold();
+    await addRoute(projectDir, { path: "/orders/:id", service: "orders.get" });
+
+    const config = await read(projectDir, "taujs.config.ts");
+    expect(config).toContain(
+      "return callService(ctx, 'orders', 'get', { id: String(params.id) });"
+    );
+    expect(config).not.toContain("ctx.call(");
+  });
+
+  it("describes the service call of a streaming route", async () => {
+    const projectDir = await scaffold({ routePreset: "ssr" });
+    await addRoute(projectDir, {
+      path: "/reports",
+      render: "streaming",
+      service: "reports.list",
+    });
+
+    const config = await read(projectDir, "taujs.config.ts");
+    expect(config).toContain("serviceDescriptor('reports', 'list', {}),");
+    // The ssr preset imports only callService
+    expect(config).toContain(
+      "import { callService, serviceDescriptor } from './src/server/route-data.ts';"
+    );
+  });
+});
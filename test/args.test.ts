@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+
+import { CliArgsError, formatHelp, parseArgs } from "../src/args";
+
+describe("parseArgs", () => {
+  it.each([
+    [["--verify"], true],
+    [["--no-verify"], false],
+    // Unset, so a preset or .create-taujsrc.json decides
+    [[], undefined],
+  ])("reads %j as verify: %s", (rawArgs, verify) => {
+    expect(parseArgs(["my-app", ...rawArgs]).verify).toBe(verify);
+  });
+
+  it("rejects --verify without an install, but not --no-verify", () => {
+    expect(() => parseArgs(["my-app", "--verify", "--no-install"])).toThrow(
+      new CliArgsError("--verify needs dependencies installed; drop --no-install")
+    );
+    expect(parseArgs(["my-app", "--no-verify", "--no-install"])).toMatchObject({
+      verify: false,
+      installDeps: false,
+    });
+  });
+
+  it("documents every boolean answer as negatable", () => {
+    const help = formatHelp("0.0.0");
+    for (const flag of ["install", "verify", "git"]) {
+      expect(help).toContain(`--[no-]${flag}`);
+    }
+  });
+});
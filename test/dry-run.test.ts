@@ -0,0 +1,49 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { TargetDirectoryError } from "../src/create";
+import { dryRun } from "../src/dry-run";
+import { projectConfig } from "./helpers";
+
+let workDir: string;
+
+beforeEach(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-dry-run-"));
+});
+
+afterEach(async () => {
+  await fs.remove(workDir);
+});
+
+describe("dryRun", () => {
+  it("previews a new project without writing it", async () => {
+    const config = projectConfig({ targetDir: path.join(workDir, "my-taujs-app") });
+    const report = await dryRun(config);
+
+    expect(report.targetConflict).toBeNull();
+    expect(report.files.map((file) => file.path)).toContain("taujs.config.ts");
+    expect(report.files.some((file) => file.overwrites)).toBe(false);
+    expect(await fs.pathExists(config.targetDir)).toBe(false);
+  });
+
+  it("reports a non-empty target that createProject would stop at", async () => {
+    const config = projectConfig({ targetDir: path.join(workDir, "my-taujs-app") });
+    await fs.outputFile(path.join(config.targetDir, "package.json"), "{}");
+    await fs.outputFile(path.join(config.targetDir, "notes.txt"), "");
+
+    const report = await dryRun(config);
+    expect(report.targetConflict).toMatch(/is not empty \((package\.json|notes\.txt), /);
+    expect(report.files.find((file) => file.path === "package.json")?.overwrites).toBe(true);
+
+    expect((await dryRun({ ...config, force: true })).targetConflict).toBeNull();
+  });
+
+  it("rejects a target that is not a directory", async () => {
+    const config = projectConfig({ targetDir: path.join(workDir, "my-taujs-app") });
+    await fs.outputFile(config.targetDir, "");
+
+    await expect(dryRun(config)).rejects.toBeInstanceOf(TargetDirectoryError);
+  });
+});
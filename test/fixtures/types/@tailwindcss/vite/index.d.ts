@@ -0,0 +1,2 @@
+// Type stub of @tailwindcss/vite: the plugin factory taujs.config.ts calls
+export default function tailwindcss(): unknown[];
@@ -0,0 +1,44 @@
+// Type stub of @taujs/react, modelled on the published declarations
+/// <reference types="node" />
+
+import type { ReactElement } from "react";
+import type { Writable } from "node:stream";
+
+export declare const useSSRStore: <T>() => T;
+
+export declare function hydrateApp(options: {
+  appComponent: ReactElement;
+  rootElementId?: string;
+  enableDebug?: boolean;
+  dataKey?: string;
+  onHydrationError?: (err: unknown) => void;
+  onStart?: () => void;
+  onSuccess?: () => void;
+}): void;
+
+export type HeadContext<T extends Record<string, unknown> = Record<string, unknown>> = {
+  data: T;
+  meta: Record<string, unknown>;
+};
+
+export declare function createRenderer<
+  T extends Record<string, unknown> = Record<string, unknown>,
+>(options: {
+  appComponent: (props: { location: string }) => ReactElement;
+  headContent: (ctx: HeadContext<T>) => string;
+  enableDebug?: boolean;
+  streamOptions?: { shellTimeoutMs?: number };
+}): {
+  renderSSR: (
+    initialData: T,
+    location: string,
+    meta?: Record<string, unknown>,
+    signal?: AbortSignal
+  ) => Promise<{ headContent: string; appHtml: string; aborted: boolean }>;
+  renderStream: (
+    writable: Writable,
+    callbacks: Record<string, (...args: any[]) => void> | undefined,
+    initialData: T | Promise<T> | (() => Promise<T>),
+    location: string
+  ) => { abort: () => void; done: Promise<void> };
+};
@@ -0,0 +1,269 @@
+// Type stub of @taujs/server: dist/Config-2Loymxo2.d.ts as published in 0.5.5,
+// with vite's PluginOption reduced to `unknown`.
+// Copy the declarations again when the pinned τjs release changes.
+
+import { FastifyRequest } from 'fastify';
+
+// Only vite/client is stubbed
+type PluginOption = unknown;
+
+declare const DEBUG_CATEGORIES: readonly ["auth", "routes", "errors", "vite", "network", "ssr"];
+type DebugCategory = (typeof DEBUG_CATEGORIES)[number];
+type DebugConfig = boolean | DebugCategory[] | ({
+    all?: boolean;
+} & Partial<Record<DebugCategory, boolean>>);
+interface BaseLogger {
+    debug?(meta?: unknown, message?: string): void;
+    info?(meta?: unknown, message?: string): void;
+    warn?(meta?: unknown, message?: string): void;
+    error?(meta?: unknown, message?: string): void;
+    child?(context: Record<string, unknown>): BaseLogger;
+}
+interface Logs extends BaseLogger {
+    debug(meta?: unknown, message?: string): void;
+    debug(category: DebugCategory, meta?: unknown, message?: string): void;
+    info(meta?: unknown, message?: string): void;
+    warn(meta?: unknown, message?: string): void;
+    error(meta?: unknown, message?: string): void;
+    child(context: Record<string, unknown>): Logs;
+    isDebugEnabled(category: DebugCategory): boolean;
+}
+
+type RegistryCaller<R extends ServiceRegistry = ServiceRegistry> = (serviceName: keyof R & string, methodName: string, args?: JsonObject) => Promise<JsonObject>;
+type JsonPrimitive = string | number | boolean | null;
+type JsonValue = JsonPrimitive | JsonValue[] | {
+    [k: string]: JsonValue;
+};
+type JsonObject = {
+    [k: string]: JsonValue;
+};
+type NarrowSchema<T> = {
+    parse: (u: unknown) => T;
+} | ((u: unknown) => T);
+type ServiceContext = {
+    signal?: AbortSignal;
+    deadlineMs?: number;
+    traceId?: string;
+    logger?: Logs;
+    user?: {
+        id: string;
+        roles: string[];
+    } | null;
+    call?: (service: string, method: string, args?: JsonObject) => Promise<JsonObject>;
+};
+declare function withDeadline(signal: AbortSignal | undefined, ms?: number): AbortSignal | undefined;
+type ServiceMethod<P, R extends JsonObject = JsonObject> = (params: P, ctx: ServiceContext) => Promise<R>;
+type ServiceDefinition = Readonly<Record<string, ServiceMethod<any, JsonObject>>>;
+type ServiceRegistry = Readonly<Record<string, ServiceDefinition>>;
+type ServiceDescriptor = {
+    serviceName: string;
+    serviceMethod: string;
+    args?: JsonObject;
+};
+declare function defineService<T extends Record<string, ServiceMethod<any, JsonObject> | {
+    handler: ServiceMethod<any, JsonObject>;
+    params?: NarrowSchema<any>;
+    result?: NarrowSchema<any>;
+}>>(spec: T): { [K in keyof T]: T[K] extends ServiceMethod<infer P, infer R> ? ServiceMethod<P, R> : T[K] extends {
+    handler: ServiceMethod<infer P, infer R_1>;
+} ? ServiceMethod<P, R_1> : never; };
+declare const defineServiceRegistry: <R extends ServiceRegistry>(registry: R) => R;
+declare function callServiceMethod(registry: ServiceRegistry, serviceName: string, methodName: string, params: JsonObject | undefined, ctx: ServiceContext): Promise<JsonObject>;
+
+type RequestContext<L extends Logs = Logs> = {
+    traceId: string;
+    logger: L;
+    headers?: Record<string, string>;
+};
+
+type PathToRegExpParams = Partial<Record<string, string | string[]>>;
+type RouteCSPConfig = {
+    disabled?: boolean;
+    mode?: 'merge' | 'replace';
+    directives?: unknown | ((args: {
+        url: string;
+        params: PathToRegExpParams;
+        headers: Record<string, string>;
+        req?: unknown;
+    }) => unknown);
+    generateCSP?: (directives: unknown, nonce: string, req?: unknown) => string;
+    reportOnly?: boolean;
+};
+type BaseMiddleware = {
+    auth?: {
+        redirect?: string;
+        roles?: string[];
+        strategy?: string;
+    };
+    csp?: RouteCSPConfig | false;
+};
+type DataResult = Record<string, unknown> | ServiceDescriptor;
+type RequestServiceContext<L extends Logs = Logs> = ServiceContext & RequestContext<L> & {
+    call?: RegistryCaller<ServiceRegistry>;
+    headers: Record<string, string>;
+};
+type DataHandler<Params extends PathToRegExpParams, L extends Logs = Logs> = (params: Params, ctx: (RequestServiceContext<L> & {
+    call: RegistryCaller<ServiceRegistry>;
+}) & {
+    [key: string]: unknown;
+}) => Promise<DataResult>;
+type RouteAttributes<Params extends PathToRegExpParams = PathToRegExpParams, Middleware = BaseMiddleware, L extends Logs = Logs> = {
+    render: 'ssr';
+    hydrate?: boolean;
+    meta?: Record<string, unknown>;
+    middleware?: Middleware;
+    data?: DataHandler<Params, L>;
+} | {
+    render: 'streaming';
+    hydrate?: boolean;
+    meta: Record<string, unknown>;
+    middleware?: Middleware;
+    data?: DataHandler<Params, L>;
+};
+type Route<Params extends PathToRegExpParams = PathToRegExpParams> = {
+    attr?: RouteAttributes<Params>;
+    path: string;
+    appId?: string;
+};
+type AppId<C extends {
+    apps: readonly {
+        appId: string;
+    }[];
+}> = C['apps'][number]['appId'];
+type AppOf<C extends {
+    apps: readonly any[];
+}, A extends AppId<C>> = Extract<C['apps'][number], {
+    appId: A;
+}>;
+type RoutesOfApp<C extends {
+    apps: readonly any[];
+}, A extends AppId<C>> = AppOf<C, A>['routes'] extends readonly any[] ? AppOf<C, A>['routes'][number] : never;
+type RouteDataOf<R> = R extends {
+    attr?: {
+        data?: (...args: any) => infer Ret;
+    };
+} ? Awaited<Ret> : unknown;
+type RoutePathOf<R> = R extends {
+    path: infer P;
+} ? P : never;
+type SingleRouteContext<C extends {
+    apps: readonly any[];
+}, A extends AppId<C>, R extends RoutesOfApp<C, A>> = R extends any ? {
+    appId: A;
+    path: RoutePathOf<R>;
+    data: RouteDataOf<R>;
+    attr: R extends {
+        attr?: infer Attr;
+    } ? Attr : never;
+} : never;
+type RouteContext$1<C extends {
+    apps: readonly any[];
+}> = {
+    [A in AppId<C>]: SingleRouteContext<C, A, RoutesOfApp<C, A>>;
+}[AppId<C>];
+type RouteData$1<C extends {
+    apps: readonly any[];
+}, Path extends string> = Extract<RouteContext$1<C>, {
+    path: Path;
+}>['data'];
+type CoreSecurityConfig = {
+    csp?: {
+        defaultMode?: 'merge' | 'replace';
+        directives?: unknown;
+        generateCSP?: (directives: unknown, nonce: string, req?: unknown) => string;
+        reporting?: {
+            endpoint: string;
+            onViolation?: (report: unknown, req: unknown) => void;
+            reportOnly?: boolean;
+        };
+    };
+};
+type AppRoute = Omit<Route<PathToRegExpParams>, 'appId'> & {
+    attr?: RouteAttributes<PathToRegExpParams>;
+};
+type CoreAppConfig = {
+    appId: string;
+    entryPoint: string;
+    plugins?: readonly unknown[];
+    routes?: readonly AppRoute[];
+};
+type CoreTaujsConfig = {
+    apps: readonly CoreAppConfig[];
+    security?: CoreSecurityConfig;
+    server?: {
+        host?: string;
+        port?: number;
+        hmrPort?: number;
+    };
+};
+
+type CSPDirectives = Record<string, string[]>;
+
+type CSPViolationReport = {
+    'document-uri': string;
+    'violated-directive': string;
+    'blocked-uri'?: string;
+    'source-file'?: string;
+    'line-number'?: number;
+    'column-number'?: number;
+    'script-sample'?: string;
+    'original-policy'?: string;
+    disposition?: 'enforce' | 'report';
+};
+
+type ErrorKind = 'infra' | 'upstream' | 'domain' | 'validation' | 'auth' | 'canceled' | 'timeout';
+declare class AppError extends Error {
+    readonly kind: ErrorKind;
+    readonly httpStatus: number;
+    readonly details?: unknown;
+    readonly safeMessage: string;
+    readonly code?: string;
+    constructor(message: string, kind: ErrorKind, options?: {
+        httpStatus?: number;
+        details?: unknown;
+        cause?: unknown;
+        safeMessage?: string;
+        code?: string;
+    });
+    private getSafeMessage;
+    private serialiseValue;
+    toJSON(): any;
+    static notFound(message: string, details?: unknown, code?: string): AppError;
+    static forbidden(message: string, details?: unknown, code?: string): AppError;
+    static badRequest(message: string, details?: unknown, code?: string): AppError;
+    static unprocessable(message: string, details?: unknown, code?: string): AppError;
+    static timeout(message: string, details?: unknown, code?: string): AppError;
+    static canceled(message: string, details?: unknown, code?: string): AppError;
+    static internal(message: string, cause?: unknown, details?: unknown, code?: string): AppError;
+    static upstream(message: string, cause?: unknown, details?: unknown, code?: string): AppError;
+    static serviceUnavailable(message: string, cause?: unknown, details?: unknown, code?: string): AppError;
+    static from(err: unknown, fallback?: string): AppError;
+}
+
+type SecurityConfig = CoreSecurityConfig & {
+    csp?: {
+        defaultMode?: 'merge' | 'replace';
+        directives?: CSPDirectives;
+        generateCSP?: (directives: CSPDirectives, nonce: string, req?: FastifyRequest) => string;
+        reporting?: {
+            endpoint: string;
+            onViolation?: (report: CSPViolationReport, req: FastifyRequest) => void;
+            reportOnly?: boolean;
+        };
+    };
+};
+type AppConfig = CoreAppConfig & {
+    plugins?: PluginOption[];
+    routes?: readonly AppRoute[];
+};
+type TaujsConfig = CoreTaujsConfig & {
+    apps: readonly AppConfig[];
+    security?: SecurityConfig;
+};
+
+type RouteContext = RouteContext$1<TaujsConfig>;
+type RouteData<C extends TaujsConfig = TaujsConfig, P extends string = string> = RouteData$1<C, P>;
+
+declare function defineConfig<const C extends TaujsConfig>(config: C): C;
+
+export { type AppConfig as A, type BaseLogger as B, type CoreAppConfig as C, type DebugConfig as D, type RouteContext as R, type ServiceRegistry as S, type TaujsConfig as T, type SecurityConfig as a, type RouteData as b, callServiceMethod as c, defineConfig as d, defineService as e, defineServiceRegistry as f, type RegistryCaller as g, type ServiceContext as h, AppError as i, withDeadline as w };
@@ -0,0 +1,5 @@
+// Type stub of @taujs/server: dist/Config.d.ts as published in 0.5.5,
+// without its side-effect imports of fastify and vite.
+// Copy the declarations again when the pinned τjs release changes.
+
+export { A as AppConfig, i as AppError, g as RegistryCaller, R as RouteContext, b as RouteData, a as SecurityConfig, h as ServiceContext, T as TaujsConfig, c as callServiceMethod, d as defineConfig, e as defineService, f as defineServiceRegistry, w as withDeadline } from './Config-2Loymxo2.js';
@@ -0,0 +1,144 @@
+// Type stub of @taujs/server: dist/index.d.ts as published in 0.5.5,
+// with vite's InlineConfig reduced to a plain object.
+// Copy the declarations again when the pinned τjs release changes.
+
+import { FastifyPluginCallback, FastifyPluginAsync, FastifyInstance } from 'fastify';
+import { T as TaujsConfig, S as ServiceRegistry, D as DebugConfig, B as BaseLogger, C as CoreAppConfig } from './Config-2Loymxo2.js';
+
+// Only vite/client is stubbed
+type InlineConfig = Record<string, unknown>;
+
+type NetResolved = {
+    host: string;
+    port: number;
+    hmrPort: number;
+};
+
+type StaticMountEntry = {
+    plugin: FastifyPluginCallback<any> | FastifyPluginAsync<any>;
+    options?: Record<string, unknown>;
+};
+type StaticAssetsRegistration = false | StaticMountEntry | StaticMountEntry[];
+
+type CreateServerOptions = {
+    config: TaujsConfig;
+    serviceRegistry?: ServiceRegistry;
+    clientRoot?: string;
+    alias?: Record<string, string>;
+    fastify?: FastifyInstance;
+    debug?: DebugConfig;
+    logger?: BaseLogger;
+    staticAssets?: false | StaticAssetsRegistration;
+    port?: number;
+};
+type CreateServerResult = {
+    app?: FastifyInstance;
+    net: NetResolved;
+};
+declare const createServer: (opts: CreateServerOptions) => Promise<CreateServerResult>;
+
+/**
+ * τjs [ taujs ] Orchestration System
+ * (c) 2024-present Aoede Ltd
+ * Author: John Smith
+ *
+ * Licensed under the MIT License - attribution appreciated.
+ * Part of the τjs [ taujs ] system for declarative, build-time orchestration of microfrontend applications,
+ * including CSR, SSR, streaming, and middleware composition.
+ */
+
+type ViteBuildContext = {
+    appId: string;
+    entryPoint: string;
+    isSSRBuild: boolean;
+    clientRoot: string;
+};
+/**
+ * User-supplied vite config override.
+ * Can be a static config object or a function that receives build context.
+ *
+ * **Plugin order**: Framework applies plugins in this sequence:
+ * 1. `appConfig.plugins` (from taujs.config.ts)
+ * 2. `nodePolyfills({ include: ['stream'] })` (client builds only)
+ * 3. `userViteConfig.plugins` (from this option)
+ *
+ * If you need plugins before nodePolyfills, add them to `appConfig.plugins` instead.
+ *
+ * **Allowed customisations:**
+ * - `plugins`: Appended to framework plugin list
+ * - `define`: Shallow-merged with framework defines
+ * - `css.preprocessorOptions`: Deep-merged by preprocessor engine (scss, less, etc.)
+ * - `build.sourcemap`, `minify`, `terserOptions`: Direct overrides
+ * - `build.rollupOptions.external`: Direct override
+ * - `build.rollupOptions.output.manualChunks`: Merged into output config
+ * - `resolve.*` (except `alias`): Merged with framework resolve config
+ * - `esbuild`, `logLevel`, `optimizeDeps`: Direct overrides
+ *
+ * **Protected fields (cannot override):**
+ * - `root`, `base`, `publicDir`: Framework-controlled per-app paths
+ * - `build.outDir`: Framework manages `dist/client` vs `dist/ssr` separation
+ * - `build.ssr`, `ssrManifest`, `format`, `target`: Framework-controlled for SSR integrity
+ * - `build.rollupOptions.input`: Framework manages entry points
+ * - `resolve.alias`: Use top-level `alias` option in taujsBuild() instead
+ * - `server.*`: Ignored in builds (dev-mode only; configure in DevServer.ts)
+ *
+ * @example
+ * ```ts
+ * // Static config
+ * vite: {
+ *   plugins: [visualizer()],
+ *   build: { sourcemap: 'inline' }
+ * }
+ *
+ * // Function-based (conditional per app/mode)
+ * vite: ({ isSSRBuild, entryPoint }) => ({
+ *   plugins: isSSRBuild ? [] : [visualizer()],
+ *   logLevel: entryPoint === 'admin' ? 'info' : 'warn'
+ * })
+ * ```
+ */
+type ViteConfigOverride = Partial<InlineConfig> | ((ctx: ViteBuildContext) => Partial<InlineConfig>);
+declare function taujsBuild({ config, projectRoot, clientBaseDir, isSSRBuild, alias: userAlias, vite: userViteConfig, }: {
+    config: {
+        apps: readonly CoreAppConfig[];
+    };
+    projectRoot: string;
+    clientBaseDir: string;
+    isSSRBuild?: boolean;
+    /**
+     * Top-level alias overrides. Use this instead of `vite.resolve.alias`.
+     * User aliases are merged with framework defaults; user values win on conflicts.
+     *
+     * Framework provides:
+     * - `@client`: Resolves to current app's root
+     * - `@server`: Resolves to `src/server`
+     * - `@shared`: Resolves to `src/shared`
+     *
+     * @example
+     * ```ts
+     * alias: {
+     *   '@utils': './src/utils',
+     *   '@server': './custom-server', // overrides framework default
+     * }
+     * ```
+     */
+    alias?: Record<string, string>;
+    /** User-supplied Vite config overrides (plugins, tuning, etc.) */
+    vite?: ViteConfigOverride;
+}): Promise<void>;
+
+interface MessageMetaLogger {
+    debug?: (message?: string, meta?: Record<string, unknown>) => unknown;
+    info?: (message?: string, meta?: Record<string, unknown>) => unknown;
+    warn?: (message?: string, meta?: Record<string, unknown>) => unknown;
+    error?: (message?: string, meta?: Record<string, unknown>) => unknown;
+    child?: (bindings: Record<string, unknown>) => MessageMetaLogger | undefined;
+}
+declare function winstonAdapter(winston: MessageMetaLogger): BaseLogger;
+
+interface InitialRouteParams extends Record<string, unknown> {
+    serviceName?: string;
+    serviceMethod?: string;
+}
+
+export { BaseLogger, type InitialRouteParams, createServer, taujsBuild, winstonAdapter };
@@ -0,0 +1,70 @@
+// Type stub of fastify, modelled on the published declarations.
+// Only what generated projects use is declared.
+/// <reference types="node" />
+
+import type { Server } from "node:http";
+
+type LogFn = {
+  (msg: string): void;
+  (obj: unknown, msg?: string): void;
+};
+
+export interface FastifyBaseLogger {
+  level: string;
+  fatal: LogFn;
+  error: LogFn;
+  warn: LogFn;
+  info: LogFn;
+  debug: LogFn;
+  trace: LogFn;
+  child(bindings: Record<string, unknown>): FastifyBaseLogger;
+}
+
+export interface FastifyLoggerOptions {
+  level?: string;
+  stream?: { write(msg: string): void };
+}
+
+export interface FastifyServerOptions {
+  logger?: boolean | FastifyLoggerOptions;
+  forceCloseConnections?: boolean | "idle";
+  return503OnClosing?: boolean;
+}
+
+export interface FastifyRequest {
+  id: string;
+  url: string;
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface FastifyReply {
+  code(statusCode: number): FastifyReply;
+  header(key: string, value: string): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+}
+
+type RouteHandler = (request: FastifyRequest, reply: FastifyReply) => unknown;
+
+export interface FastifyInstance {
+  log: FastifyBaseLogger;
+  server: Server;
+  get(path: string, handler: RouteHandler): FastifyInstance;
+  listen(options: { host?: string; port?: number }): Promise<string>;
+  close(): Promise<undefined>;
+}
+
+export type FastifyPluginCallback<Options = Record<string, never>> = (
+  instance: FastifyInstance,
+  opts: Options,
+  done: (err?: Error) => void
+) => void;
+
+export type FastifyPluginAsync<Options = Record<string, never>> = (
+  instance: FastifyInstance,
+  opts: Options
+) => Promise<void>;
+
+declare function fastify(options?: FastifyServerOptions): FastifyInstance;
+
+export default fastify;
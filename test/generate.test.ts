@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  appLayouts,
+  createTemplateContext,
+  generatePackageJson,
+  renderProjectFiles,
+} from "../src/generate";
+import { validateAppIds } from "../src/names";
+import { ROUTE_PRESET_NAMES } from "../src/route-presets";
+import type { ProjectConfig } from "../src/types";
+import { TAUJS_RELEASES } from "../src/versions";
+import { projectConfig } from "./helpers";
+
+type Files = Map<string, string>;
+
+type Combination = {
+  name: string;
+  overrides: Partial<ProjectConfig>;
+  /** What the combination changes, asserted on the rendered files */
+  check: (files: Files) => void;
+};
+
+const COMBINATIONS: Combination[] = [
+  {
+    name: "one app with npm",
+    overrides: {},
+    check: (files) => {
+      expect(files.get("README.md")).toContain("npm run dev");
+      expect([...files.keys()].filter((file) => file.startsWith("src/client/main/"))).toEqual([]);
+    },
+  },
+  {
+    name: "one app with pnpm, no install",
+    overrides: { packageManager: "pnpm", installDeps: false },
+    check: (files) => {
+      expect(files.get("README.md")).toContain("pnpm dev");
+      expect(JSON.parse(files.get("package.json")!)).not.toHaveProperty("packageManager");
+    },
+  },
+  {
+    name: "two apps with yarn",
+    overrides: { packageManager: "yarn", apps: ["shop", "admin"] },
+    check: (files) => {
+      expect(files.has("src/client/shop/App.tsx")).toBe(true);
+      expect(files.has("src/client/admin/App.tsx")).toBe(true);
+      expect(files.get("build.ts")).toContain("admin -> src/client/admin");
+      expect(files.get("README.md")).toContain("yarn dev");
+    },
+  },
+  {
+    name: "three apps with a pinned bun",
+    overrides: { packageManager: "bun", packageManagerVersion: "1.2.0", apps: ["web", "admin", "docs"] },
+    check: (files) => {
+      expect(JSON.parse(files.get("package.json")!).packageManager).toBe("bun@1.2.0");
+      expect(files.get("taujs.config.ts")).toContain("entryPoint: 'docs'");
+      expect(files.get("README.md")).toContain("bun run dev");
+    },
+  },
+  {
+    name: "a scoped package in a nested directory",
+    overrides: { packageName: "@acme/storefront", targetDir: "apps/storefront" },
+    check: (files) => {
+      expect(JSON.parse(files.get("package.json")!).name).toBe("@acme/storefront");
+      expect(files.get("README.md")).toMatch(/^# @acme\/storefront\n/);
+      expect(files.get("README.md")).toContain("storefront/\n├── src/");
+    },
+  },
+  {
+    name: "one app with CSS Modules",
+    overrides: { styling: "css-modules" },
+    check: (files) => {
+      for (const page of ["Layout.tsx", "pages/HomePage.tsx", "pages/NotFoundPage.tsx"]) {
+        expect(files.get(`src/client/${page}`)).toMatch(/^import styles from '.*App\.module\.css';$/m);
+      }
+    },
+  },
+  {
+    name: "two apps with Tailwind",
+    overrides: { styling: "tailwind", apps: ["shop", "admin"] },
+    check: (files) => {
+      expect(files.get("taujs.config.ts")!.match(/plugins: \[tailwindcss\(\)\]/g)).toHaveLength(2);
+      expect(files.get("src/client/admin/styles.css")).toContain('@import "tailwindcss";');
+      expect(JSON.parse(files.get("package.json")!).dependencies).toHaveProperty("tailwindcss");
+    },
+  },
+  {
+    name: "SSR routes only",
+    overrides: { routePreset: "ssr" },
+    check: (files) => {
+      expect(files.get("taujs.config.ts")).not.toContain("render: 'streaming'");
+      expect(files.has("src/client/pages/StreamingPage.tsx")).toBe(false);
+    },
+  },
+  {
+    name: "streaming routes only",
+    overrides: { routePreset: "streaming" },
+    check: (files) => {
+      expect(files.get("taujs.config.ts")).not.toContain("render: 'ssr'");
+      expect(files.get("taujs.config.ts")).not.toContain("callService");
+    },
+  },
+  {
+    name: "a static route",
+    overrides: { routePreset: "static" },
+    check: (files) => {
+      expect(files.get("taujs.config.ts")).toContain("hydrate: false");
+    },
+  },
+  {
+    name: "client-rendered routes in two apps",
+    overrides: { routePreset: "client", apps: ["shop", "admin"] },
+    check: (files) => {
+      // Only the first app's shell answers unmatched paths
+      expect(files.has("src/client/admin/pages/ClientPage.tsx")).toBe(false);
+      expect(files.get("README.md")).toContain("rendered in the browser");
+    },
+  },
+  {
+    name: "Docker with npm",
+    overrides: { deploy: "docker" },
+    check: (files) => {
+      expect(files.get("src/server/env.ts")).toContain("NODE_ENV === 'production' ? '0.0.0.0'");
+      expect(files.get("Dockerfile")).toContain("RUN npm ci --omit=dev");
+    },
+  },
+  {
+    name: "Docker with pnpm",
+    overrides: { deploy: "docker", packageManager: "pnpm", packageManagerVersion: "9.1.0" },
+    check: (files) => {
+      expect(files.get("Dockerfile")).toContain("RUN corepack enable");
+      expect(files.get("Dockerfile")).toContain("COPY package.json pnpm-lock.yaml ./");
+    },
+  },
+  {
+    name: "Docker with Yarn 4",
+    overrides: { deploy: "docker", packageManager: "yarn", packageManagerVersion: "4.5.0" },
+    check: (files) => {
+      expect(files.get("Dockerfile")).toContain("ENV YARN_NODE_LINKER=node-modules");
+      expect(files.get("Dockerfile")).toContain("RUN yarn workspaces focus --production");
+    },
+  },
+  {
+    name: "Docker with bun and Tailwind",
+    overrides: { deploy: "docker", packageManager: "bun", styling: "tailwind" },
+    check: (files) => {
+      expect(files.get("Dockerfile")).toContain("RUN npm install --global bun@1");
+      expect(files.get("Dockerfile")).toContain("COPY package.json bun.lock* ./");
+    },
+  },
+];
+
+async function render(config: ProjectConfig): Promise<Files> {
+  const rendered = await renderProjectFiles(config, "/work");
+  return new Map(rendered.map((file) => [file.path, file.contents.toString("utf8")]));
+}
+
+const baseFiles = render(projectConfig());
+
+describe.each(COMBINATIONS)("$name", ({ overrides, check }) => {
+  const config = projectConfig(overrides);
+
+  it("renders the combination's files", async () => {
+    const files = await render(config);
+    const base = await baseFiles;
+    const isBase = Object.keys(overrides).length === 0;
+
+    expect(createTemplateContext(config, "/work")).toMatchSnapshot("context");
+    expect([...files.keys()]).toMatchSnapshot("paths");
+    // Every file of the default answers, and what each other combination changes
+    for (const [file, contents] of files) {
+      if (isBase || base.get(file) !== contents) expect(contents).toMatchSnapshot(file);
+    }
+    check(files);
+  });
+});
+
+describe("appLayouts", () => {
+  it("mounts the first app at / and the others under their IDs", () => {
+    const [shop, admin] = appLayouts(["shop", "admin"], "client");
+
+    expect([shop.homePath, shop.clientDir]).toEqual(["/", "src/client/shop"]);
+    expect([admin.homePath, admin.clientDir]).toEqual(["/admin", "src/client/admin"]);
+    // Only the first app's shell answers the client-rendered path
+    expect(shop.routes.map((route) => route.path)).toEqual(["/", "/client"]);
+    expect(admin.routes.map((route) => route.path)).toEqual(["/admin"]);
+  });
+});
+
+describe("validateAppIds", () => {
+  it.each(ROUTE_PRESET_NAMES)(
+    "rejects later apps mounted over a %s route of the first",
+    (routePreset) => {
+      const [main] = appLayouts(["main"], routePreset);
+      for (const route of main.routes.filter((route) => route.path !== "/")) {
+        const id = route.path.split("/")[1];
+        expect(validateAppIds(["main", id])).toBe(
+          `App ID "${id}" clashes with the /${id} route that route presets give "main"`
+        );
+      }
+    }
+  );
+
+  it("allows those IDs for the first app, which is mounted at /", () => {
+    expect(validateAppIds(["client", "admin"])).toBe(true);
+    expect(validateAppIds(["streaming", "admin"])).toBe(true);
+  });
+});
+
+describe("generatePackageJson", () => {
+  it.each(Object.keys(TAUJS_RELEASES))("pins the τjs %s set", (taujsVersion) => {
+    expect(generatePackageJson("my-taujs-app", taujsVersion)).toMatchSnapshot();
+  });
+
+  it("adds the packageManager field when given", () => {
+    const packageJson = generatePackageJson("my-taujs-app", "0.5.5", {
+      packageManager: "pnpm@9.1.0",
+    });
+    expect(Object.keys(packageJson).slice(0, 5)).toEqual([
+      "name",
+      "version",
+      "private",
+      "type",
+      "packageManager",
+    ]);
+    expect(packageJson).toMatchObject({ packageManager: "pnpm@9.1.0" });
+  });
+
+  it("adds Tailwind to dependencies, which the server build leaves external", () => {
+    const { dependencies, scripts } = generatePackageJson("my-taujs-app", "0.5.5", {
+      styling: "tailwind",
+    });
+    expect(dependencies).toMatchObject({
+      "@tailwindcss/vite": TAUJS_RELEASES["0.5.5"].extras["@tailwindcss/vite"],
+      tailwindcss: TAUJS_RELEASES["0.5.5"].extras.tailwindcss,
+    });
+    expect(Object.keys(dependencies)).toEqual(
+      Object.keys(dependencies).sort((a, b) => a.localeCompare(b))
+    );
+    expect(scripts["build:server"]).toBe("tsx build.ts --server");
+  });
+});
+
+describe("TAUJS_RELEASES", () => {
+  it.each(Object.entries(TAUJS_RELEASES))(
+    "pins every %s dependency to an exact version",
+    (_, { dependencies, devDependencies, extras }) => {
+      for (const version of Object.values({
+        ...dependencies,
+        ...devDependencies,
+        ...extras,
+      })) {
+        expect(version).toMatch(/^\d+\.\d+\.\d+(-[\w.]+)?$/);
+      }
+    }
+  );
+});
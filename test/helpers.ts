@@ -0,0 +1,20 @@
+import type { ProjectConfig } from "../src/types";
+
+/** The answers for a one-app npm project called my-taujs-app, with `overrides` */
+export function projectConfig(overrides: Partial<ProjectConfig> = {}): ProjectConfig {
+  return {
+    packageName: "my-taujs-app",
+    targetDir: "my-taujs-app",
+    packageManager: "npm",
+    installDeps: true,
+    verify: false,
+    git: true,
+    taujsVersion: "0.5.5",
+    apps: ["main"],
+    routePreset: "mixed",
+    styling: "css",
+    deploy: "none",
+    force: false,
+    ...overrides,
+  };
+}
@@ -0,0 +1,168 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+
+import { CommandError, type CommandRunner } from "../src/commands";
+import { ScaffoldCancelledError, createProject } from "../src/create";
+import { createMemoryFileSystem } from "../src/fs";
+import { INSTALL_LOG, installDependencies, networkModes } from "../src/install";
+
+const PROJECT = path.resolve("/project");
+
+describe("installDependencies", () => {
+  it("logs the output and records what the install created", async () => {
+    const fileSystem = createMemoryFileSystem({ "/project/package.json": "{}" });
+    const chunks: string[] = [];
+    const runCommand: CommandRunner = async (command, args, { onOutput }) => {
+      onOutput?.("added 120 packages\n");
+      await fileSystem.writeFile(path.join(PROJECT, "pnpm-lock.yaml"), Buffer.from(""));
+      return "";
+    };
+
+    const result = await installDependencies(PROJECT, {
+      packageManager: "pnpm",
+      network: "prefer-offline",
+      runCommand,
+      fileSystem,
+      onOutput: (chunk) => chunks.push(chunk),
+    });
+
+    expect(result).toMatchObject({
+      status: "installed",
+      command: "pnpm install --prefer-offline",
+      exitCode: 0,
+      logFile: path.join(PROJECT, INSTALL_LOG),
+      created: ["pnpm-lock.yaml"],
+    });
+    expect(chunks).toEqual(["added 120 packages\n"]);
+    const log = (await fileSystem.readFile(result.logFile!)).toString();
+    expect(log).toMatch(/^\$ pnpm install --prefer-offline\n/);
+    expect(log).toContain("added 120 packages");
+    expect(log).toMatch(/# installed in \d+\.\ds\n$/);
+  });
+
+  it("reports the exit code of a failed install", async () => {
+    const fileSystem = createMemoryFileSystem();
+    const runCommand: CommandRunner = async (command, args, { onOutput }) => {
+      onOutput?.("npm ERR! code E404\n");
+      throw new CommandError("npm install", 1, null, "npm ERR! code E404\nnpm ERR! 404 Not Found");
+    };
+
+    const result = await installDependencies(PROJECT, {
+      packageManager: "npm",
+      runCommand,
+      fileSystem,
+    });
+
+    expect(result).toMatchObject({
+      status: "failed",
+      exitCode: 1,
+      timedOut: false,
+      error: "npm ERR! code E404",
+      created: [],
+    });
+    expect((await fileSystem.readFile(result.logFile!)).toString()).toContain(
+      "# failed (exit code 1): npm ERR! code E404"
+    );
+  });
+
+  it("stops an install that runs past the timeout", async () => {
+    const runCommand: CommandRunner = (command, args, { signal }) =>
+      new Promise((resolve, reject) =>
+        signal?.addEventListener("abort", () =>
+          reject(new CommandError(command, null, "SIGTERM", ""))
+        )
+      );
+
+    const result = await installDependencies(PROJECT, {
+      packageManager: "yarn",
+      timeoutMs: 20,
+      runCommand,
+      fileSystem: createMemoryFileSystem(),
+    });
+
+    expect(result).toMatchObject({
+      status: "failed",
+      exitCode: null,
+      timedOut: true,
+      error: "timed out after 20ms",
+    });
+  });
+});
+
+describe("networkModes", () => {
+  it("offers offline installs only where the package manager has them", () => {
+    expect(networkModes("npm")).toEqual(["online", "prefer-offline", "offline"]);
+    expect(networkModes("yarn", "1.22.22")).toEqual(["online", "prefer-offline", "offline"]);
+    expect(networkModes("yarn", "4.5.0")).toEqual(["online"]);
+    expect(networkModes("bun")).toEqual(["online"]);
+  });
+});
+
+describe("createProject install retries", () => {
+  it("switches package manager and regenerates the files that name it", async () => {
+    const fileSystem = createMemoryFileSystem();
+    const commands: string[] = [];
+    const runCommand: CommandRunner = async (command, args) => {
+      commands.push([command, ...args].join(" "));
+      if (command === "npm") {
+        await fileSystem.writeFile(path.join(PROJECT, "package-lock.json"), Buffer.from("{}"));
+        throw new CommandError("npm install", 1, null, "npm ERR! network");
+      }
+      return "";
+    };
+
+    const result = await createProject({
+      packageName: "retry-app",
+      targetDir: "project",
+      cwd: path.parse(PROJECT).root,
+      packageManager: "npm",
+      installDeps: true,
+      git: false,
+      fileSystem,
+      runCommand,
+      retryInstall: async (install, packageManager) =>
+        packageManager === "npm"
+          ? { packageManager: "pnpm", packageManagerVersion: "9.15.0" }
+          : null,
+    });
+
+    expect(commands).toEqual(["npm install", "pnpm install"]);
+    expect(result.install.status).toBe("installed");
+    expect(result.packageManager).toBe("pnpm");
+    expect(await fileSystem.exists(path.join(PROJECT, "package-lock.json"))).toBe(false);
+
+    const pkg = JSON.parse((await fileSystem.readFile(path.join(PROJECT, "package.json"))).toString());
+    expect(pkg.packageManager).toBe("pnpm@9.15.0");
+  });
+});
+
+describe("createProject rollback", () => {
+  it("removes the parent directories it created for a nested target", async () => {
+    const fileSystem = createMemoryFileSystem({ [path.join(PROJECT, "README.md")]: "# Repo" });
+    const controller = new AbortController();
+    // Cancelled (Ctrl+C) while installing into the moved project
+    const runCommand: CommandRunner = async (command) => {
+      controller.abort();
+      throw new CommandError(`${command} install`, null, "SIGINT", "");
+    };
+
+    await expect(
+      createProject({
+        targetDir: "apps/storefront",
+        cwd: PROJECT,
+        installDeps: true,
+        git: false,
+        fileSystem,
+        runCommand,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow(
+      new ScaffoldCancelledError(
+        "installing dependencies",
+        "Cancelled while installing dependencies. Nothing was left behind."
+      )
+    );
+
+    expect(await fileSystem.readdir(PROJECT)).toEqual(["README.md"]);
+  });
+});
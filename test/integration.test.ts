@@ -0,0 +1,208 @@
+import { spawnSync } from "child_process";
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { addRoute, addService } from "../src/add";
+import { createProject, type CreateProjectOptions } from "../src/create";
+
+const ROOT = fileURLToPath(new URL("..", import.meta.url));
+
+// Hand-written declarations for @taujs/*, fastify and vite/client. Everything
+// else the generated code imports is typed by this repo's own devDependencies.
+const STUB_TYPES = path.join(ROOT, "test/fixtures/types");
+const LINKED_TYPES = [
+  "@types/node",
+  "@types/react",
+  "@types/react-dom",
+  "csstype",
+  "undici-types",
+];
+
+async function installTypes(projectDir: string) {
+  const nodeModules = path.join(projectDir, "node_modules");
+  await fs.copy(STUB_TYPES, nodeModules);
+  for (const name of LINKED_TYPES) {
+    await fs.ensureSymlink(
+      path.join(ROOT, "node_modules", name),
+      path.join(nodeModules, name),
+      "dir"
+    );
+  }
+}
+
+function typeCheck(projectDir: string, tsconfig = "tsconfig.json") {
+  const result = spawnSync(
+    process.execPath,
+    [
+      path.join(ROOT, "node_modules/typescript/bin/tsc"),
+      "--project",
+      path.join(projectDir, tsconfig),
+    ],
+    { encoding: "utf8", timeout: 120_000 }
+  );
+  return { status: result.status, output: `${result.stdout}${result.stderr}` };
+}
+
+describe("generated projects", () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-test-"));
+  });
+
+  afterAll(async () => {
+    await fs.remove(workDir);
+  });
+
+  async function scaffold(
+    targetDir: string,
+    options: Pick<CreateProjectOptions, "apps" | "routePreset" | "styling" | "deploy"> = {}
+  ) {
+    const result = await createProject({
+      targetDir,
+      ...options,
+      cwd: workDir,
+      installDeps: false,
+      git: false,
+    });
+    await installTypes(result.targetDir);
+    return result;
+  }
+
+  it("type-checks a single-app project", { timeout: 120_000 }, async () => {
+    const { targetDir, files } = await scaffold("single");
+
+    expect(files).toContain("src/client/App.tsx");
+    expect(typeCheck(targetDir)).toEqual({ status: 0, output: "" });
+    expect(typeCheck(targetDir, "src/server/tsconfig.json")).toEqual({
+      status: 0,
+      output: "",
+    });
+  });
+
+  it("type-checks a multi-app project", { timeout: 120_000 }, async () => {
+    const { targetDir, files } = await scaffold("multi", {
+      apps: ["shop", "admin", "docs"],
+    });
+
+    expect(files).toContain("src/client/admin/App.tsx");
+    expect(typeCheck(targetDir)).toEqual({ status: 0, output: "" });
+  });
+
+  it.each(["css-modules", "tailwind"] as const)(
+    "type-checks a project styled with %s",
+    { timeout: 120_000 },
+    async (styling) => {
+      const { targetDir } = await scaffold(styling, { styling });
+      expect(typeCheck(targetDir)).toEqual({ status: 0, output: "" });
+    }
+  );
+
+  it.each(["streaming", "client"] as const)(
+    "type-checks a project with the %s route preset",
+    { timeout: 120_000 },
+    async (routePreset) => {
+      const { targetDir } = await scaffold(`routes-${routePreset}`, { routePreset });
+      expect(typeCheck(targetDir)).toEqual({ status: 0, output: "" });
+    }
+  );
+
+  it("type-checks a project with the Docker deploy preset", { timeout: 120_000 }, async () => {
+    const { targetDir, files } = await scaffold("docker", { deploy: "docker" });
+    expect(files).toEqual(expect.arrayContaining(["Dockerfile", ".dockerignore"]));
+    expect(typeCheck(targetDir)).toEqual({ status: 0, output: "" });
+  });
+
+  it("validates the server environment", { timeout: 120_000 }, async () => {
+    const { targetDir } = await scaffold("env");
+    const { parseEnv } = await import(path.join(targetDir, "src/server/env.ts"));
+
+    expect(parseEnv({})).toEqual({
+      NODE_ENV: "development",
+      HOST: "localhost",
+      PORT: 5173,
+      HMR_PORT: 5174,
+      LOG_LEVEL: "info",
+      LOG_FORMAT: "pretty",
+      SHUTDOWN_TIMEOUT_MS: 8000,
+      GREETING_DELAY_MS: 750,
+    });
+    expect(parseEnv({ NODE_ENV: "production" })).toMatchObject({ LOG_FORMAT: "json" });
+    expect(() => parseEnv({ NODE_ENV: "staging", PORT: "http" })).toThrow(
+      [
+        "Invalid environment:",
+        '  - NODE_ENV must be one of development, production, test, got "staging"',
+        '  - PORT must be a whole number from 1 to 65535, got "http"',
+      ].join("\n")
+    );
+  });
+
+  it("stops on a required variable that is not set", { timeout: 120_000 }, async () => {
+    const { targetDir } = await scaffold("env-required");
+    const envPath = path.join(targetDir, "src/server/env.ts");
+    // Add a variable without a fallback, as the comment in env.ts describes
+    const source = (await fs.readFile(envPath, "utf8"))
+      .replace("  GREETING_DELAY_MS: number;\n", "$&  API_URL: string;\n")
+      .replace(/^ {4}GREETING_DELAY_MS: integer\(.*\n/m, "$&    API_URL: string('API_URL'),\n");
+    await fs.writeFile(envPath, source);
+
+    // Importing env.ts loads the environment, which would exit without it
+    vi.stubEnv("API_URL", "http://localhost:4000");
+    try {
+      const { parseEnv } = await import(envPath);
+
+      expect(parseEnv({ API_URL: "https://api.example.com" })).toMatchObject({
+        API_URL: "https://api.example.com",
+      });
+      expect(() => parseEnv({ API_URL: " ", PORT: "0" })).toThrow(
+        [
+          "Invalid environment:",
+          '  - PORT must be a whole number from 1 to 65535, got "0"',
+          "  - API_URL is required but not set",
+        ].join("\n")
+      );
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("reports type errors in the generated code", { timeout: 120_000 }, async () => {
+    const { targetDir } = await scaffold("broken");
+    await fs.outputFile(
+      path.join(targetDir, "src/server/broken.ts"),
+      'export const port: number = "5173";\n'
+    );
+
+    const { status, output } = typeCheck(targetDir);
+    expect(status).not.toBe(0);
+    expect(output).toContain("src/server/broken.ts");
+  });
+
+  it("types page data from the service behind its route", { timeout: 120_000 }, async () => {
+    const { targetDir } = await scaffold("reshaped");
+    const servicePath = path.join(targetDir, "src/server/services/example.service.ts");
+    const service = await fs.readFile(servicePath, "utf8");
+    await fs.writeFile(servicePath, service.replace("message: `Hello", "text: `Hello"));
+
+    const { status, output } = typeCheck(targetDir);
+    expect(status).not.toBe(0);
+    expect(output).toContain("src/client/pages/HomePage.tsx");
+    expect(output).toContain("src/client/pages/StreamingPage.tsx");
+  });
+
+  it("type-checks routes added with --service", { timeout: 120_000 }, async () => {
+    const { targetDir } = await scaffold("added", { routePreset: "streaming" });
+    await addService(targetDir, "orders");
+    await addRoute(targetDir, { path: "/orders/:id", service: "orders.get" });
+    await addRoute(targetDir, {
+      path: "/orders/:id/live",
+      render: "streaming",
+      service: "orders.get",
+    });
+
+    expect(typeCheck(targetDir)).toEqual({ status: 0, output: "" });
+  });
+});
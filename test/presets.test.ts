@@ -0,0 +1,102 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import {
+  DEFAULTS_FILE,
+  PresetError,
+  loadDefaults,
+  loadPreset,
+  savePreset,
+  validatePreset,
+} from "../src/presets";
+import { projectConfig } from "./helpers";
+
+describe("validatePreset", () => {
+  it("accepts any subset of the preset keys", () => {
+    const preset = { packageManager: "pnpm", apps: ["shop", "admin"], verify: true };
+    expect(validatePreset(preset, "team.json")).toEqual(preset);
+  });
+
+  it("reports every problem at once", () => {
+    expect(() =>
+      validatePreset(
+        { stylng: "tailwind", targetDir: "app", apps: "shop", installDeps: "yes" },
+        "team.json"
+      )
+    ).toThrow(
+      [
+        "Invalid preset team.json:",
+        '  - unknown key "stylng"',
+        '  - "targetDir" is specific to one project; pass it on the command line',
+        '  - "apps" must be a list of app IDs, e.g. ["shop", "admin"], got "shop"',
+        '  - "installDeps" must be true or false, got "yes"',
+        "  - Known keys: packageManager, installDeps, verify, git, apps, routePreset, styling, deploy, taujsVersion, template",
+      ].join("\n")
+    );
+  });
+
+  it("rejects anything but an object", () => {
+    expect(() => validatePreset(["tailwind"], "team.json")).toThrow(PresetError);
+  });
+});
+
+describe("preset files", () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-presets-test-"));
+  });
+
+  afterAll(async () => {
+    await fs.remove(workDir);
+  });
+
+  it("round-trips answers, keeping the template relative to the preset", async () => {
+    const config = projectConfig({
+      packageName: "shop",
+      targetDir: "shop",
+      packageManager: "yarn",
+      installDeps: false,
+      apps: ["shop", "admin"],
+      routePreset: "streaming",
+      styling: "tailwind",
+      deploy: "docker",
+      template: "templates/brand",
+      force: true,
+    });
+
+    await savePreset("presets/team.json", config, workDir);
+    const saved = await fs.readJson(path.join(workDir, "presets/team.json"));
+
+    expect(saved).not.toHaveProperty("packageName");
+    expect(saved).not.toHaveProperty("force");
+    expect(saved.template).toBe("../templates/brand");
+    expect(await loadPreset("presets/team.json", workDir)).toEqual({
+      packageManager: "yarn",
+      installDeps: false,
+      verify: false,
+      git: true,
+      taujsVersion: "0.5.5",
+      apps: ["shop", "admin"],
+      routePreset: "streaming",
+      styling: "tailwind",
+      deploy: "docker",
+      template: path.join(workDir, "templates/brand"),
+    });
+  });
+
+  it("layers the nearest repo defaults over the user's", async () => {
+    const home = path.join(workDir, "home");
+    const repo = path.join(workDir, "repo");
+    await fs.outputJson(path.join(home, DEFAULTS_FILE), { packageManager: "bun", styling: "tailwind" });
+    await fs.outputJson(path.join(repo, DEFAULTS_FILE), { styling: "css-modules" });
+    await fs.ensureDir(path.join(repo, "apps"));
+
+    expect(await loadDefaults(path.join(repo, "apps"), home)).toEqual({
+      defaults: { packageManager: "bun", styling: "css-modules" },
+      files: [path.join(home, DEFAULTS_FILE), path.join(repo, DEFAULTS_FILE)],
+    });
+  });
+});
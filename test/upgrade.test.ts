@@ -0,0 +1,165 @@
+import fs from "fs-extra";
+import os from "os";
+import path from "path";
+import * as tar from "tar";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import { version } from "../package.json";
+import type { CommandRunner } from "../src/commands";
+import { renderProjectFiles, writeProjectFiles } from "../src/generate";
+import { MANIFEST_FILE, type ProjectManifest } from "../src/manifest";
+import { mergeText } from "../src/merge";
+import { BUILTIN_TEMPLATE_DIR } from "../src/templates";
+import { UpgradeError, upgradeProject } from "../src/upgrade";
+import { projectConfig } from "./helpers";
+
+const LABELS = { ours: "local", theirs: "create-taujs" };
+
+describe("mergeText", () => {
+  const base = "one\ntwo\nthree\nfour\nfive\n";
+
+  it("takes changes made on either side", () => {
+    const ours = "one\nTWO\nthree\nfour\nfive\n";
+    const theirs = "one\ntwo\nthree\nfour\nFIVE\nsix\n";
+
+    expect(mergeText(base, ours, theirs, LABELS)).toEqual({
+      text: "one\nTWO\nthree\nfour\nFIVE\nsix\n",
+      conflicts: 0,
+    });
+  });
+
+  it("takes a change made on both sides once", () => {
+    const both = "one\ntwo\n3\nfour\nfive\n";
+    expect(mergeText(base, both, both, LABELS)).toEqual({ text: both, conflicts: 0 });
+  });
+
+  it("marks lines both sides changed differently", () => {
+    const ours = "one\ntwo\nmine\nfour\nfive";
+    const theirs = "one\ntwo\ntheirs\nfour\nfive\n";
+
+    expect(mergeText(base, ours, theirs, LABELS)).toEqual({
+      text: [
+        "one",
+        "two",
+        "<<<<<<< local",
+        "mine",
+        "=======",
+        "theirs",
+        ">>>>>>> create-taujs",
+        "four",
+        "five",
+      ].join("\n"),
+      conflicts: 1,
+    });
+  });
+});
+
+describe("upgradeProject", () => {
+  let workDir: string;
+  let tarball: string;
+
+  const config = projectConfig({
+    packageName: "upgraded",
+    targetDir: "upgraded",
+    installDeps: false,
+    git: false,
+  });
+
+  // Stands in for `npm pack` fetching the release the project was made with
+  const runCommand: CommandRunner = async (command, args) => {
+    expect([command, ...args.slice(0, 2)]).toEqual(["npm", "pack", "@taujs/create-taujs@0.1.0"]);
+    const destination = args[args.indexOf("--pack-destination") + 1];
+    await fs.copy(tarball, path.join(destination, path.basename(tarball)));
+    return path.basename(tarball);
+  };
+
+  async function edit(file: string, from: string, to: string) {
+    const contents = await fs.readFile(file, "utf8");
+    expect(contents).toContain(from);
+    await fs.writeFile(file, contents.replace(from, to));
+  }
+
+  beforeAll(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "create-taujs-upgrade-test-"));
+
+    // An earlier release whose templates differ from today's in a few places
+    const release = path.join(workDir, "release/package");
+    const templates = path.join(release, "templates/default");
+    await fs.copy(BUILTIN_TEMPLATE_DIR, templates);
+    await edit(path.join(templates, "README.md"), "## Environment", "## Settings");
+    await edit(path.join(templates, "taujs.config.ts"), "port: env.PORT", "port: 5173");
+    await edit(
+      path.join(templates, "src/server/services/example.service.ts"),
+      "// Simulate async operation",
+      "// Simulate a slow operation"
+    );
+    await fs.writeFile(path.join(templates, "src/server/legacy.ts"), "export {};\n");
+    await fs.remove(path.join(templates, ".env.example"));
+
+    tarball = path.join(workDir, "taujs-create-taujs-0.1.0.tgz");
+    await tar.c({ gzip: true, file: tarball, cwd: path.dirname(release) }, ["package"]);
+
+    const projectDir = path.join(workDir, "upgraded");
+    await writeProjectFiles(projectDir, await renderProjectFiles(config, workDir, templates));
+    const manifestPath = path.join(projectDir, MANIFEST_FILE);
+    const manifest: ProjectManifest = await fs.readJson(manifestPath);
+    await fs.writeJson(manifestPath, { ...manifest, version: "0.1.0" });
+  });
+
+  afterAll(async () => {
+    await fs.remove(workDir);
+  });
+
+  it("merges the current templates into an edited project", async () => {
+    const projectDir = path.join(workDir, "upgraded");
+    const configPath = path.join(projectDir, "taujs.config.ts");
+    const servicePath = path.join(projectDir, "src/server/services/example.service.ts");
+    await fs.appendFile(configPath, "// Tuned for production\n");
+    await edit(servicePath, "// Simulate a slow operation", "// Pretend to query a database");
+
+    const dryRun = await upgradeProject({ projectDir, dryRun: true, runCommand });
+    expect(await fs.pathExists(path.join(projectDir, "src/server/legacy.ts"))).toBe(true);
+
+    const result = await upgradeProject({ projectDir, runCommand });
+
+    expect(result).toEqual(dryRun);
+    expect(result.files).toEqual([
+      { path: ".env.example", action: "added" },
+      { path: "README.md", action: "updated" },
+      { path: "src/server/legacy.ts", action: "removed" },
+      { path: "src/server/services/example.service.ts", action: "conflict" },
+      { path: "taujs.config.ts", action: "merged" },
+    ]);
+    expect(result.conflicts).toEqual(["src/server/services/example.service.ts"]);
+
+    expect(await fs.pathExists(path.join(projectDir, ".env.example"))).toBe(true);
+    expect(await fs.pathExists(path.join(projectDir, "src/server/legacy.ts"))).toBe(false);
+    expect(await fs.readFile(path.join(projectDir, "README.md"), "utf8")).toContain(
+      "## Environment"
+    );
+
+    const mergedConfig = await fs.readFile(configPath, "utf8");
+    expect(mergedConfig).toContain("port: env.PORT");
+    expect(mergedConfig).toContain("// Tuned for production");
+
+    expect(await fs.readFile(servicePath, "utf8")).toContain(
+      [
+        "<<<<<<< local",
+        "    // Pretend to query a database",
+        "=======",
+        "    // Simulate async operation",
+        `>>>>>>> create-taujs v${version}`,
+      ].join("\n")
+    );
+
+    // Resolved or not, the project now counts as rendered by this release
+    const manifest: ProjectManifest = await fs.readJson(path.join(projectDir, MANIFEST_FILE));
+    expect(manifest.version).toBe(version);
+    const again = await upgradeProject({ projectDir, runCommand });
+    expect(again.files).toEqual([]);
+  });
+
+  it("refuses a project without a manifest", async () => {
+    await expect(upgradeProject({ projectDir: workDir })).rejects.toThrow(UpgradeError);
+  });
+});
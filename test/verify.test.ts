@@ -0,0 +1,149 @@
+import http from "http";
+import path from "path";
+import { describe, expect, it } from "vitest";
+
+import { CommandError, type CommandRunner } from "../src/commands";
+import { createProject } from "../src/create";
+import { createMemoryFileSystem } from "../src/fs";
+import { verifyProject } from "../src/verify";
+
+const RENDERED = "<html><body><main>Hi</main><script>window.__INITIAL_DATA__ = {}</script></body></html>";
+const UNRENDERED = "<html><head><!--ssr-head--></head><body><!--ssr-html--></body></html>";
+
+/**
+ * Stands in for the package manager and the generated server: `lint` exits
+ * with `lintExitCode`, and the server answers on the PORT it is given until
+ * it is aborted.
+ */
+function fakeRunner({
+  lintExitCode = 0,
+  pages = {},
+}: {
+  lintExitCode?: number;
+  pages?: Record<string, string>;
+}): CommandRunner {
+  return async (command, args, { env, signal, onOutput }) => {
+    if (args.includes("lint")) {
+      onOutput?.("> tsc --noEmit\n");
+      if (lintExitCode !== 0) {
+        onOutput?.("src/server/index.ts(1,1): error TS2322\n");
+        throw new CommandError(`${command} ${args.join(" ")}`, lintExitCode, null, "");
+      }
+      return "";
+    }
+
+    const server = http.createServer((req, res) => {
+      const page = pages[req.url ?? ""];
+      res.writeHead(page ? 200 : 404, { "content-type": "text/html" });
+      res.end(page ?? "Not found");
+    });
+    await new Promise<void>((resolve) => server.listen(Number(env?.PORT), resolve));
+    onOutput?.(`listening on ${env?.PORT}\n`);
+
+    await new Promise((resolve) => signal?.addEventListener("abort", resolve));
+    await new Promise((resolve) => server.close(resolve));
+    throw new CommandError(command, null, "SIGTERM", "");
+  };
+}
+
+describe("verifyProject", () => {
+  it("passes when lint succeeds and every route server-renders", async () => {
+    const report = await verifyProject("/project", {
+      packageManager: "pnpm",
+      paths: ["/", "/streaming"],
+      runCommand: fakeRunner({ pages: { "/": RENDERED, "/streaming": RENDERED } }),
+    });
+
+    expect(report.status).toBe("passed");
+    expect(report.checks.map((check) => check.name)).toEqual([
+      "lint",
+      "boot",
+      "GET /",
+      "GET /streaming",
+    ]);
+    expect(report.checks[1].log).toContain("listening on");
+  });
+
+  it("reports each failure with its output", async () => {
+    const report = await verifyProject("/project", {
+      packageManager: "npm",
+      paths: ["/", "/streaming", "/missing"],
+      runCommand: fakeRunner({
+        lintExitCode: 2,
+        pages: { "/": RENDERED, "/streaming": UNRENDERED },
+      }),
+    });
+
+    expect(report.status).toBe("failed");
+    expect(
+      report.checks.map(({ name, passed, detail }) => ({ name, passed, detail }))
+    ).toEqual([
+      { name: "lint", passed: false, detail: "npm run lint exited with code 2" },
+      { name: "boot", passed: true, detail: expect.stringMatching(/^listening on port/) },
+      { name: "GET /", passed: true, detail: expect.stringMatching(/^200/) },
+      {
+        name: "GET /streaming",
+        passed: false,
+        detail: "<!--ssr-head--> was not replaced",
+      },
+      { name: "GET /missing", passed: false, detail: "responded 404" },
+    ]);
+    expect(report.checks[0].log).toContain("error TS2322");
+  });
+
+  it("fails the boot check when the server exits early", async () => {
+    const runCommand: CommandRunner = async (command, args, { onOutput }) => {
+      if (args.includes("lint")) return "";
+      onOutput?.("Error: Cannot find module 'src/server/index.ts'\n");
+      throw new CommandError(command, 1, null, "Cannot find module");
+    };
+
+    const report = await verifyProject("/project", {
+      packageManager: "npm",
+      paths: ["/"],
+      runCommand,
+    });
+
+    expect(report.status).toBe("failed");
+    expect(report.checks.at(-1)).toMatchObject({
+      name: "boot",
+      passed: false,
+      detail: "Cannot find module",
+    });
+    expect(report.checks.at(-1)?.log).toContain("Cannot find module");
+  });
+});
+
+describe("createProject verification", () => {
+  it("reports checks that could not run and still cleans up", async () => {
+    const fileSystem = createMemoryFileSystem();
+    const project = path.resolve("/project");
+    await fileSystem.writeFile(path.join(project, "notes.txt"), Buffer.from("keep me"));
+
+    // Spawning the server throws instead of failing the boot check
+    const runCommand: CommandRunner = (command) => {
+      if (command === process.execPath) throw new Error("spawn EMFILE");
+      return Promise.resolve("");
+    };
+
+    const result = await createProject({
+      targetDir: "project",
+      cwd: path.parse(project).root,
+      force: true,
+      verify: true,
+      git: false,
+      fileSystem,
+      runCommand,
+    });
+
+    expect(result.verify).toMatchObject({
+      status: "failed",
+      checks: [{ name: "verify", passed: false, detail: "could not run: spawn EMFILE" }],
+    });
+    expect(await fileSystem.exists(path.join(project, "package.json"))).toBe(true);
+    expect(await fileSystem.exists(path.join(project, "notes.txt"))).toBe(true);
+    expect(
+      (await fileSystem.readdir(project)).filter((name) => name.startsWith(".create-taujs-"))
+    ).toEqual([]);
+  });
+});
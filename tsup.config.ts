@@ -1,12 +1,13 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/api.ts"],
   format: ["esm"],
   target: "node18",
   clean: true,
   splitting: false,
   shims: true,
-  dts: false,
+  // Only the programmatic API has a public type surface
+  dts: { entry: "src/api.ts" },
   outDir: "dist",
 });